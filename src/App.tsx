@@ -3,8 +3,11 @@ import BackgroundAnimation from './components/BackgroundAnimation';
 import AuthPage from './components/AuthPage';
 import HomePage from './components/HomePage';
 import ChatbotPage from './components/ChatbotPage';
+import DocumentsPage from './components/DocumentsPage';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { signOutUser, getCurrentUser } from './lib/supabase';
+import { ProcessedDocument } from './lib/documentText';
+import { terminateOcrWorkers } from './lib/ocrService';
 
 export interface User {
   email: string;
@@ -14,10 +17,11 @@ export interface User {
 
 function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [currentPage, setCurrentPage] = useState<'auth' | 'home' | 'chatbot'>('auth');
+  const [currentPage, setCurrentPage] = useState<'auth' | 'home' | 'chatbot' | 'documents'>('auth');
   const [chatbotContext, setChatbotContext] = useState<'upload' | 'medicine-search' | 'question'>('question');
   const [chatSessionId, setChatSessionId] = useState<string | undefined>(undefined);
   const [initialExtractedText, setInitialExtractedText] = useState<string>('');
+  const [initialDocument, setInitialDocument] = useState<ProcessedDocument | undefined>(undefined);
 
   // Check for existing Supabase session on app load
   React.useEffect(() => {
@@ -43,6 +47,8 @@ function App() {
 
   const handleLogout = async () => {
     await signOutUser();
+    // Free the OCR engines; the next user's first upload starts them again
+    terminateOcrWorkers();
     setCurrentUser(null);
     setCurrentPage('auth');
   };
@@ -51,16 +57,26 @@ function App() {
     setChatbotContext(context);
     setChatSessionId(undefined); // Start new session
     setInitialExtractedText(''); // Clear any previous extracted text
+    setInitialDocument(undefined);
     setCurrentPage('chatbot');
   };
 
-  const handleNavigateToChatbotWithText = (context: 'upload' | 'medicine-search' | 'question', extractedText: string) => {
+  const handleNavigateToChatbotWithText = (
+    context: 'upload' | 'medicine-search' | 'question',
+    extractedText: string,
+    document?: ProcessedDocument
+  ) => {
     setChatbotContext(context);
     setChatSessionId(undefined); // Start new session
     setInitialExtractedText(extractedText); // Set extracted text
+    setInitialDocument(document); // Keep OCR corrections and the parsed prescription alongside the text
     setCurrentPage('chatbot');
   };
 
+  const handleNavigateToDocuments = () => {
+    setCurrentPage('documents');
+  };
+
   const handleBackToHome = () => {
     setCurrentPage('home');
   };
@@ -77,6 +93,13 @@ function App() {
             initialContext={chatbotContext}
             sessionId={chatSessionId}
             initialExtractedText={initialExtractedText}
+            initialDocument={initialDocument}
+          />
+        ) : currentPage === 'documents' && currentUser ? (
+          <DocumentsPage
+            user={currentUser}
+            onBack={handleBackToHome}
+            onOpenInChat={(extractedText, document) => handleNavigateToChatbotWithText('upload', extractedText, document)}
           />
         ) : currentUser && currentPage === 'home' ? (
           <HomePage 
@@ -84,6 +107,7 @@ function App() {
             onLogout={handleLogout} 
             onNavigateToChatbot={handleNavigateToChatbot}
             onNavigateToChatbotWithText={handleNavigateToChatbotWithText}
+            onNavigateToDocuments={handleNavigateToDocuments}
           />
         ) : (
           <AuthPage onLogin={handleLogin} />
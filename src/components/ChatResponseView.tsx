@@ -0,0 +1,102 @@
+import React from 'react';
+import { AlertTriangle, Info, ExternalLink } from 'lucide-react';
+import MarkdownText from './MarkdownText';
+import MedicineCard from './MedicineCard';
+import { ChatResponse, MedicineBlock, WarningSeverity } from '../lib/chatResponse';
+
+interface ChatResponseViewProps {
+  response: ChatResponse;
+  // Unique per message so "[n]" markers link to this reply's own footnotes
+  footnotePrefix?: string;
+  // Lower-cased names already in the user's medicine list
+  savedMedicineNames?: string[];
+  onAddMedicine?: (medicine: MedicineBlock) => Promise<void>;
+  onAskAboutMedicine?: (medicine: MedicineBlock) => void;
+}
+
+const WARNING_STYLES: Record<WarningSeverity, string> = {
+  info: 'bg-[rgba(0,212,170,0.1)] border-[rgba(0,212,170,0.25)] text-[var(--text-primary)]',
+  caution: 'bg-[rgba(245,158,11,0.1)] border-[rgba(245,158,11,0.3)] text-[var(--text-primary)]',
+  danger: 'bg-[rgba(239,68,68,0.1)] border-[rgba(239,68,68,0.3)] text-[var(--text-primary)]',
+};
+
+const WARNING_ICON_STYLES: Record<WarningSeverity, string> = {
+  info: 'text-[var(--primary-cyan)]',
+  caution: 'text-[#f59e0b]',
+  danger: 'text-[#ef4444]',
+};
+
+// A validated bot reply: text, medicine cards and warnings in order, then numbered sources
+const ChatResponseView: React.FC<ChatResponseViewProps> = ({
+  response,
+  footnotePrefix = 'source',
+  savedMedicineNames = [],
+  onAddMedicine,
+  onAskAboutMedicine
+}) => (
+  <div className="chat-response space-y-3">
+    {response.blocks.map((block, index) => {
+      if (block.type === 'text') {
+        return (
+          <MarkdownText
+            key={index}
+            text={block.text}
+            footnotes={{ idPrefix: footnotePrefix, count: response.citations.length }}
+          />
+        );
+      }
+
+      if (block.type === 'warning') {
+        const Icon = block.severity === 'info' ? Info : AlertTriangle;
+        return (
+          <div key={index} className={`flex items-start gap-2 border rounded-xl p-3 text-sm ${WARNING_STYLES[block.severity]}`}>
+            <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${WARNING_ICON_STYLES[block.severity]}`} />
+            <span className="whitespace-pre-wrap">{block.text}</span>
+          </div>
+        );
+      }
+
+      return (
+        <MedicineCard
+          key={index}
+          medicine={block}
+          saved={savedMedicineNames.includes(block.name.toLowerCase())}
+          onAdd={onAddMedicine}
+          onAskFollowUp={onAskAboutMedicine}
+        />
+      );
+    })}
+
+    {response.citations.length > 0 && (
+      <div className="citations border-t border-[var(--glass-border)] pt-2">
+        <h5 className="text-xs font-semibold text-[var(--text-muted)] mb-1">Sources</h5>
+        <ol className="list-decimal list-inside text-xs text-[var(--text-secondary)] space-y-0.5">
+          {response.citations.map((citation, index) => (
+            <li key={index} id={`${footnotePrefix}-${index + 1}`} className="scroll-mt-24">
+              {citation.url ? (
+                <a
+                  href={citation.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[var(--primary-cyan)] hover:underline inline-flex items-center gap-1"
+                >
+                  {citation.title}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              ) : citation.title}
+              {citation.publisher && <span className="text-[var(--text-muted)]"> — {citation.publisher}</span>}
+              {!citation.url && citation.identifier && (
+                <span className="text-[var(--text-muted)] font-mono"> · {citation.identifier}</span>
+              )}
+              {citation.retrieved_at && (
+                <span className="text-[var(--text-muted)]"> (retrieved {citation.retrieved_at})</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    )}
+  </div>
+);
+
+export default ChatResponseView;
@@ -1,8 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, ArrowLeft, Bot, User, Upload, Search, MessageSquare, Loader2, Plus, Menu, X, Clock, Trash2 } from 'lucide-react';
+import { Send, ArrowLeft, Bot, User, Upload, Search, MessageSquare, Loader2, Plus, Menu, X, Clock, Trash2, Square, RotateCcw, AlertTriangle, Copy, Check, Download, HelpCircle } from 'lucide-react';
 import MedicalLogo from './MedicalLogo';
 import { User as UserType } from '../App';
 import ThemeToggle from './ThemeToggle';
+import DosingAnnotatedText from './DosingAnnotatedText';
+import StoredFileThumbnails from './StoredFileThumbnails';
 import { 
   createChatSession, 
   insertChatMessage, 
@@ -11,9 +13,25 @@ import {
   getChatSessions,
   deleteChatSession,
   getCurrentUser,
+  updateUserActivityAnalysis,
+  getUserActivityByFilePaths,
+  updateChatMessage,
+  addUserMedicine,
+  getUserMedicines,
   ChatSession,
+  ChatMessageStatus,
   ChatMessage as DBChatMessage
 } from '../lib/supabase';
+import { ProcessedDocument, activityToDocument } from '../lib/documentText';
+import { RedactionMap, mergeRedactions } from '../lib/piiRedaction';
+import { requestAnalysis } from '../lib/analysis';
+import { ChatTurn } from '../lib/chatHistory';
+import { ChatResponse, MedicineBlock, InvalidChatResponseError, parseChatResponse, responseToText } from '../lib/chatResponse';
+import ChatResponseView from './ChatResponseView';
+import MarkdownText from './MarkdownText';
+import { markdownToPlainText } from '../lib/markdown';
+import { chatToMarkdown, downloadTextFile, exportFileName } from '../lib/chatExport';
+import { getFollowUps } from '../lib/followUps';
 
 interface Message {
   id: string;
@@ -21,27 +39,60 @@ interface Message {
   content: string;
   timestamp: Date;
   isLoading?: boolean;
+  // 'stopped' keeps what had arrived when Stop was pressed; 'error' marks the apology for a failed request
+  status?: ChatMessageStatus;
+  // Structured reply; `content` holds its plain-text version
+  response?: ChatResponse;
+  // Retry number while a transient failure is being retried
+  retry?: number;
+  // Not in the database yet, e.g. a reply stopped before any text arrived
+  unsaved?: boolean;
   attachmentType?: string;
+  attachmentPaths?: string[];
+  // The reviewed upload sent with this user turn, kept so regenerating its reply sends it again.
+  // Turns loaded from the database rebuild it from the saved upload on demand.
+  document?: ProcessedDocument;
 }
 
+// Saved replies are checked again, since they may have been stored by a different version of the app
+const readSavedResponse = (payload: unknown): ChatResponse | undefined => {
+  if (!payload) return undefined;
+  try {
+    return parseChatResponse(payload);
+  } catch (error) {
+    console.warn('Ignoring saved reply in an unknown format:', error);
+    return undefined;
+  }
+};
+
 interface ChatbotPageProps {
   user: UserType;
   onBack: () => void;
   initialContext: 'upload' | 'medicine-search' | 'question';
   sessionId?: string;
   initialExtractedText?: string;
+  initialDocument?: ProcessedDocument;
 }
 
-const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext, sessionId, initialExtractedText = '' }) => {
+const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext, sessionId, initialExtractedText = '', initialDocument }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(sessionId || null);
   const [extractedText, setExtractedText] = useState<string>(initialExtractedText);
+  const [pendingDocument, setPendingDocument] = useState<ProcessedDocument | undefined>(initialDocument);
+  // Hidden personal details stay hidden in follow-up questions for the rest of the chat
+  const [redactions, setRedactions] = useState<RedactionMap>({});
   const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
   const [showSidebar, setShowSidebar] = useState(false);
   const [currentSessionTitle, setCurrentSessionTitle] = useState<string>('');
+  // Type of the open session; differs from initialContext once an older chat is loaded
+  const [sessionContext, setSessionContext] = useState<string>(initialContext);
+  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
+  // Lower-cased names of medicines the user has saved, so cards can show they're already added
+  const [savedMedicineNames, setSavedMedicineNames] = useState<string[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = () => {
@@ -52,6 +103,9 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
     scrollToBottom();
   }, [messages]);
 
+  // Stop a reply that is still streaming when leaving the chat
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Initialize chat session and load messages
   useEffect(() => {
     const initializeChat = async () => {
@@ -64,6 +118,9 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
 
       // Load user's chat sessions
       await loadChatSessions();
+
+      const medicines = await getUserMedicines();
+      setSavedMedicineNames(medicines.map(medicine => medicine.name.toLowerCase()));
       
       if (sessionId) {
         // Load existing session
@@ -73,6 +130,7 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
         const currentSession = sessions.find(s => s.id === sessionId);
         if (currentSession) {
           setCurrentSessionTitle(currentSession.title);
+          setSessionContext(currentSession.context);
         }
       } else {
         // Create new session
@@ -140,7 +198,10 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
       type: msg.type,
       content: msg.content,
       timestamp: new Date(msg.created_at),
-      attachmentType: msg.attachment_type || undefined
+      status: msg.status,
+      response: readSavedResponse(msg.payload),
+      attachmentType: msg.attachment_type || undefined,
+      attachmentPaths: msg.attachment_paths || undefined
     }));
     setMessages(formattedMessages);
   };
@@ -149,7 +210,10 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
     setMessages([]);
     setCurrentSessionId(null);
     setCurrentSessionTitle('');
+    setSessionContext(initialContext);
     setExtractedText('');
+    setPendingDocument(undefined);
+    setRedactions({});
     setInputMessage('');
     setShowSidebar(false);
     await createNewChatSession();
@@ -158,7 +222,10 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
   const handleLoadSession = async (session: ChatSession) => {
     setCurrentSessionId(session.id);
     setCurrentSessionTitle(session.title);
+    setSessionContext(session.context);
     setExtractedText('');
+    setPendingDocument(undefined);
+    setRedactions({});
     setInputMessage('');
     setShowSidebar(false);
     await loadChatMessages(session.id);
@@ -232,138 +299,126 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
     }
   };
 
-  const simulateLLMResponse = async (userMessage: string, attachmentType?: string): Promise<string> => {
-    try {
-      const webhookUrl = import.meta.env.VITE_N8N_WEBHOOK_URL;
-      
-      if (!webhookUrl) {
-        throw new Error('N8N webhook URL not configured. Please set VITE_N8N_WEBHOOK_URL in your .env file.');
+  // Earlier turns sent along with a request; failed replies are left out so the model doesn't build on them
+  const buildHistory = (earlier: Message[], documentText?: string): ChatTurn[] => earlier
+    .filter(msg => !msg.isLoading && msg.content && msg.status !== 'error')
+    .map(msg => ({
+      role: msg.type === 'user' ? 'user' : 'assistant',
+      // The document already travels on its own, so its turn is only named here
+      content: msg.attachmentType === 'image' && msg.content === documentText ? 'I uploaded a document for analysis.' : msg.content
+    }));
+
+  // Stream a reply to userMessage into the bot message replyId; a saved reply being regenerated is updated in place
+  const generateReply = async ({ userMessage, earlier, replyId, savedReplyId, attachedDocument, sessionRedactions }: {
+    userMessage: Message;
+    // The conversation before userMessage
+    earlier: Message[];
+    replyId: string;
+    savedReplyId?: string;
+    attachedDocument?: ProcessedDocument;
+    sessionRedactions: RedactionMap;
+  }) => {
+    // The latest upload stays the document under discussion for follow-up questions
+    const documentText = userMessage.attachmentType === 'image'
+      ? userMessage.content
+      : [...earlier].reverse().find(msg => msg.type === 'user' && msg.attachmentType === 'image')?.content;
+
+    const showReply = (changes: Partial<Message>) => {
+      setMessages(prev => prev.map(msg => msg.id === replyId ? { ...msg, ...changes } : msg));
+    };
+
+    const saveReply = async (content: string, status: ChatMessageStatus, payload?: ChatResponse) => {
+      if (!currentSessionId) return;
+      if (savedReplyId) {
+        await updateChatMessage(savedReplyId, { content, status, payload });
+        return;
       }
-      
-      console.log('🚀 Sending request to webhook:', webhookUrl);
-      
-      const payload = {
-        message: userMessage,
-        attachment: attachmentType || 'text',
-        sessionid: currentSessionId || 'unknown'
-      };
-      
-      console.log('📤 Request payload:', payload);
-      
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'User-Agent': 'MediLens-Chatbot/1.0',
+
+      const saved = await insertChatMessage({
+        session_id: currentSessionId,
+        type: 'bot',
+        content,
+        status,
+        payload
+      });
+      // Switch to the database id so the reply can be regenerated later
+      if (saved) showReply({ id: saved.id, unsaved: false });
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    // Latest streamed text, kept outside state so a stopped reply can still be saved
+    let streamedText = '';
+
+    try {
+      const response = await requestAnalysis({
+        message: userMessage.content,
+        attachment: userMessage.attachmentType,
+        sessionId: currentSessionId,
+        document: attachedDocument,
+        context: sessionContext,
+        history: buildHistory(earlier, documentText),
+        documentText,
+        redactions: sessionRedactions,
+        onText: (text) => {
+          streamedText = text;
+          showReply({ content: text, retry: undefined });
+        },
+        onRetry: (retry) => {
+          streamedText = '';
+          showReply({ content: '', retry });
         },
-        body: JSON.stringify(payload)
+        signal: controller.signal
       });
 
-      console.log('📥 Response status:', response.status);
-      console.log('📥 Response headers:', Object.fromEntries(response.headers.entries()));
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Error response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
-      }
+      const responseText = responseToText(response);
+      showReply({ content: responseText, response, isLoading: false, status: 'complete', retry: undefined });
+      await saveReply(responseText, 'complete', response);
 
-      const responseText = await response.text();
-      console.log('📄 Raw response:', responseText);
-      
-      let data;
-      try {
-        data = JSON.parse(responseText);
-        console.log('✅ Parsed JSON response:', data);
-      } catch (parseError) {
-        console.error('⚠️ Failed to parse JSON response:', parseError);
-        // If response is not JSON, treat it as plain text
-        return responseText || 'Received response from workflow but could not parse it.';
+      // Keep the analysis with the saved upload so it shows up under My Documents
+      if (attachedDocument?.activityId) {
+        await updateUserActivityAnalysis(attachedDocument.activityId, responseText);
       }
-      
-      // Extract and format the result field from JSON response
-      return formatJsonResponse(data);
-      
     } catch (error) {
-      console.error('💥 Error calling n8n webhook:', error);
-      
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        console.error('🌐 Network error detected - check webhook URL and connectivity');
-        throw new Error('Network error: Unable to connect to the n8n webhook. Please verify the webhook URL is correct and accessible.');
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before Stop was pressed
+        const stoppedText = streamedText.trim();
+        showReply({ content: stoppedText, response: undefined, isLoading: false, status: 'stopped', retry: undefined });
+        if (stoppedText || savedReplyId) {
+          await saveReply(stoppedText, 'stopped');
+        }
+      } else {
+        const errorMessage = error instanceof InvalidChatResponseError
+          ? 'The assistant sent a reply in a format this app does not understand, so it can\'t be shown. Please try again; if this keeps happening, the assistant service may need updating.'
+          : 'I apologize, but I encountered an error processing your request. Please try again or contact support if the issue persists.';
+        showReply({ content: errorMessage, response: undefined, isLoading: false, status: 'error', retry: undefined });
+        await saveReply(errorMessage, 'error');
       }
-      
-      throw new Error(`AI service error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    } finally {
+      abortControllerRef.current = null;
     }
-  };
 
-  const formatJsonResponse = (data: any): string => {
-    console.log('🎨 Formatting JSON response:', data);
-    
-    // Extract the result field from the response
-    const result = data.result || data.data || data.output || data.response || data;
-    
-    if (!result) {
-      return 'No result data found in the response.';
-    }
-    
-    // If result is a string, return it directly
-    if (typeof result === 'string') {
-      return result;
-    }
-    
-    // If result is an object, format it nicely
-    if (typeof result === 'object') {
-      return formatObjectToText(result);
-    }
-    
-    // For other types, convert to string
-    return String(result);
+    setIsLoading(false);
   };
 
-  const formatObjectToText = (obj: any): string => {
-    let formatted = '';
-    
-    // Handle arrays
-    if (Array.isArray(obj)) {
-      obj.forEach((item, index) => {
-        formatted += `${index + 1}. ${typeof item === 'object' ? formatObjectToText(item) : item}\n`;
-      });
-      return formatted.trim();
-    }
-    
-    // Handle objects
-    Object.entries(obj).forEach(([key, value]) => {
-      const formattedKey = key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
-      
-      if (typeof value === 'object' && value !== null) {
-        formatted += `**${formattedKey}:**\n${formatObjectToText(value)}\n\n`;
-      } else if (Array.isArray(value)) {
-        formatted += `**${formattedKey}:**\n`;
-        value.forEach((item, index) => {
-          formatted += `  ${index + 1}. ${item}\n`;
-        });
-        formatted += '\n';
-      } else {
-        formatted += `**${formattedKey}:** ${value}\n`;
-      }
-    });
-    
-    return formatted.trim();
-  };
-  
-  const handleSendMessage = async () => {
-    const messageToSend = extractedText || inputMessage.trim();
+  // Sends the composer contents, or a suggested follow-up on its own, leaving any draft or pending upload in place
+  const handleSendMessage = async (followUp?: string) => {
+    const fromComposer = followUp === undefined;
+    const messageToSend = fromComposer ? extractedText || inputMessage.trim() : followUp;
     if (!messageToSend || isLoading) return;
 
-    const attachmentType = extractedText ? 'image' : 'text';
+    const attachmentType = fromComposer && extractedText ? 'image' : 'text';
+    const attachedDocument = attachmentType === 'image' ? pendingDocument : undefined;
+    const sessionRedactions = mergeRedactions(redactions, attachedDocument?.redactions ?? {});
 
     const userMessage: Message = {
       id: Date.now().toString(),
       type: 'user',
       content: messageToSend,
       timestamp: new Date(),
-      attachmentType
+      attachmentType,
+      attachmentPaths: attachedDocument?.filePaths,
+      document: attachedDocument
     };
 
     const loadingMessage: Message = {
@@ -371,12 +426,17 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
       type: 'bot',
       content: '',
       timestamp: new Date(),
-      isLoading: true
+      isLoading: true,
+      unsaved: true
     };
 
     setMessages(prev => [...prev, userMessage, loadingMessage]);
-    setInputMessage('');
-    setExtractedText('');
+    if (fromComposer) {
+      setInputMessage('');
+      setExtractedText('');
+      setPendingDocument(undefined);
+    }
+    setRedactions(sessionRedactions);
     setIsLoading(true);
 
     // Save user message to database
@@ -385,51 +445,99 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
         session_id: currentSessionId,
         type: 'user',
         content: messageToSend,
-        attachment_type: attachmentType
+        attachment_type: attachmentType,
+        attachment_paths: attachedDocument?.filePaths
       });
     }
 
-    try {
-      const response = await simulateLLMResponse(messageToSend, attachmentType);
-      
-      setMessages(prev => prev.map(msg => 
-        msg.id === loadingMessage.id 
-          ? { ...msg, content: response, isLoading: false }
-          : msg
-      ));
-
-      // Save bot response to database
-      if (currentSessionId) {
-        await insertChatMessage({
-          session_id: currentSessionId,
-          type: 'bot',
-          content: response
-        });
+    await generateReply({
+      userMessage,
+      earlier: messages,
+      replyId: loadingMessage.id,
+      attachedDocument,
+      sessionRedactions
+    });
+  };
+
+  // Ask again for the reply to the user turn before this bot message, replacing it
+  const handleRegenerate = async (reply: Message) => {
+    if (isLoading) return;
+
+    const replyIndex = messages.findIndex(msg => msg.id === reply.id);
+    const userIndex = messages.slice(0, replyIndex).map(msg => msg.type).lastIndexOf('user');
+    if (userIndex < 0) return;
+
+    const userMessage = messages[userIndex];
+    setIsLoading(true);
+
+    // An upload turn must be asked again with its document, or the new answer would have no context
+    let attachedDocument = userMessage.document;
+    if (!attachedDocument && userMessage.attachmentType === 'image' && userMessage.attachmentPaths?.length) {
+      const activity = await getUserActivityByFilePaths(userMessage.attachmentPaths);
+      attachedDocument = activity ? activityToDocument(activity) : undefined;
+    }
+    if (userMessage.attachmentType === 'image' && !attachedDocument) {
+      console.error('Cannot regenerate: the document for this question was not found');
+      setIsLoading(false);
+      return;
+    }
+
+    const sessionRedactions = mergeRedactions(redactions, attachedDocument?.redactions ?? {});
+    setRedactions(sessionRedactions);
+    setMessages(prev => prev.map(msg => {
+      if (msg.id === reply.id) {
+        return { ...msg, content: '', response: undefined, isLoading: true, status: undefined, timestamp: new Date() };
       }
+      return msg.id === userMessage.id ? { ...msg, document: attachedDocument } : msg;
+    }));
+
+    await generateReply({
+      userMessage,
+      earlier: messages.slice(0, userIndex),
+      replyId: reply.id,
+      savedReplyId: reply.unsaved ? undefined : reply.id,
+      attachedDocument,
+      sessionRedactions
+    });
+  };
+
+  // A reply can be asked for again when there is a question before it, and for an upload, a way to get the document back
+  const canRegenerate = (index: number) => {
+    const userTurn = messages.slice(0, index).reverse().find(msg => msg.type === 'user');
+    if (!userTurn) return false;
+    return userTurn.attachmentType !== 'image' || Boolean(userTurn.document || userTurn.attachmentPaths?.length);
+  };
+
+  const handleCopyMessage = async (message: Message) => {
+    try {
+      await navigator.clipboard.writeText(markdownToPlainText(message.content));
+      setCopiedMessageId(message.id);
+      setTimeout(() => setCopiedMessageId(current => (current === message.id ? null : current)), 2000);
     } catch (error) {
-      const errorMessage = 'I apologize, but I encountered an error processing your request. Please try again or contact support if the issue persists.';
-      
-      setMessages(prev => prev.map(msg => 
-        msg.id === loadingMessage.id 
-          ? { 
-              ...msg, 
-              content: errorMessage,
-              isLoading: false 
-            }
-          : msg
-      ));
-
-      // Save error response to database
-      if (currentSessionId) {
-        await insertChatMessage({
-          session_id: currentSessionId,
-          type: 'bot',
-          content: errorMessage
-        });
-      }
+      console.error('Failed to copy message:', error);
     }
+  };
 
-    setIsLoading(false);
+  const handleExportChat = () => {
+    const title = currentSessionTitle || getContextTitle();
+    const exported = messages.filter(message => !message.isLoading);
+    downloadTextFile(exportFileName(title), chatToMarkdown(title, exported));
+  };
+
+  const handleAddMedicine = async (medicine: MedicineBlock) => {
+    if (await addUserMedicine(medicine)) {
+      setSavedMedicineNames(prev => [...prev, medicine.name.toLowerCase()]);
+    }
+  };
+
+  // Start a question about one medicine card; the user finishes it before sending
+  const handleAskAboutMedicine = (medicine: MedicineBlock) => {
+    setInputMessage(`About ${medicine.name}: `);
+    inputRef.current?.focus();
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
   const handleFileUpload = (text: string) => {
@@ -555,6 +663,14 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
               <div className="text-[var(--text-secondary)] text-sm">
                 {user.name}
               </div>
+              <button
+                onClick={handleExportChat}
+                disabled={messages.length === 0}
+                title="Export this chat with its sources"
+                className="p-2 bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[rgba(255,255,255,0.15)] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="w-5 h-5" />
+              </button>
               <ThemeToggle />
             </div>
           </div>
@@ -564,7 +680,7 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
         <div className="chat-container flex-1 flex flex-col p-4 max-w-4xl mx-auto w-full">
           {/* Messages Area */}
           <div className="messages-area flex-1 overflow-y-auto mb-4 space-y-4 pr-2">
-            {messages.map((message) => (
+            {messages.map((message, index) => (
               <div
                 key={message.id}
                 className={`message-wrapper flex ${
@@ -594,18 +710,91 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
                       })}
                     </span>
                   </div>
+                  {message.attachmentPaths && message.attachmentPaths.length > 0 && (
+                    <StoredFileThumbnails paths={message.attachmentPaths} className="mb-2" />
+                  )}
                   <div className="message-content">
-                    {message.isLoading ? (
+                    {message.isLoading && !message.content ? (
                       <div className="flex items-center gap-2 text-[var(--text-secondary)]">
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        <span>Thinking...</span>
+                        <span>{message.retry ? `Connection problem, retrying (attempt ${message.retry + 1})...` : 'Thinking...'}</span>
                       </div>
+                    ) : message.response && !message.isLoading ? (
+                      <ChatResponseView
+                        response={message.response}
+                        footnotePrefix={`msg-${message.id}-source`}
+                        savedMedicineNames={savedMedicineNames}
+                        onAddMedicine={handleAddMedicine}
+                        onAskAboutMedicine={handleAskAboutMedicine}
+                      />
+                    ) : message.type === 'bot' && message.status !== 'error' ? (
+                      <>
+                        <MarkdownText text={message.content} />
+                        {message.isLoading && (
+                          <span className="inline-block w-2 h-4 mt-1 bg-[var(--primary-cyan)] animate-pulse" />
+                        )}
+                      </>
                     ) : (
-                      <div className="whitespace-pre-wrap leading-relaxed">
-                        {message.content}
+                      <div className={`whitespace-pre-wrap leading-relaxed ${message.status === 'error' ? 'text-[#ef4444]' : ''}`}>
+                        {message.status === 'error' && <AlertTriangle className="inline w-4 h-4 mr-1 align-text-bottom" />}
+                        <DosingAnnotatedText text={message.content} />
                       </div>
                     )}
+                    {message.status === 'stopped' && (
+                      <p className={`${message.content ? 'mt-2' : ''} text-xs text-[var(--text-muted)] italic`}>
+                        {message.content ? 'Stopped' : 'Stopped before a reply arrived.'}
+                      </p>
+                    )}
                   </div>
+                  {message.type === 'bot' && !message.isLoading && (
+                    <div className="message-actions flex justify-end items-center gap-3 mt-2">
+                      {messages.slice(0, index).some(msg => msg.type === 'user') &&
+                        message.status !== 'error' && message.content && !message.response?.citations.length && (
+                        <span
+                          title="This answer doesn't cite any sources. Check important details with a pharmacist or doctor."
+                          className="unsourced-badge mr-auto flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border border-[rgba(245,158,11,0.3)] bg-[rgba(245,158,11,0.1)] text-[#f59e0b]"
+                        >
+                          <HelpCircle className="w-3 h-3" />
+                          Unsourced
+                        </span>
+                      )}
+                      {message.content && (
+                        <button
+                          onClick={() => handleCopyMessage(message)}
+                          title="Copy as plain text"
+                          className="flex items-center gap-1 text-xs text-[var(--text-muted)] hover:text-[var(--primary-cyan)] transition-colors"
+                        >
+                          {copiedMessageId === message.id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                          {copiedMessageId === message.id ? 'Copied' : 'Copy'}
+                        </button>
+                      )}
+                      {canRegenerate(index) && (
+                        <button
+                          onClick={() => handleRegenerate(message)}
+                          disabled={isLoading}
+                          title="Ask for this reply again"
+                          className="flex items-center gap-1 text-xs text-[var(--text-muted)] hover:text-[var(--primary-cyan)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Regenerate
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {message.type === 'bot' && index === messages.length - 1 && !message.isLoading && message.status !== 'error' && (
+                    <div className="follow-up-chips flex flex-wrap gap-2 mt-3 pt-3 border-t border-[var(--glass-border)]">
+                      {getFollowUps(message.response, sessionContext).map(question => (
+                        <button
+                          key={question}
+                          onClick={() => handleSendMessage(question)}
+                          disabled={isLoading}
+                          className="px-3 py-1.5 rounded-full text-xs text-left bg-[rgba(0,212,170,0.1)] border border-[rgba(0,212,170,0.25)] text-[var(--primary-cyan)] hover:bg-[rgba(0,212,170,0.2)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {question}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -628,17 +817,23 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ user, onBack, initialContext,
                   readOnly={!!extractedText}
                 />
               </div>
-              <button
-                onClick={handleSendMessage}
-                disabled={(!inputMessage.trim() && !extractedText) || isLoading}
-                className="send-btn p-3 bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white rounded-xl hover:shadow-[0_4px_12px_rgba(0,212,170,0.3)] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed hover:transform hover:-translate-y-1"
-              >
-                {isLoading ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                ) : (
+              {isLoading ? (
+                <button
+                  onClick={handleStopGeneration}
+                  title="Stop generating"
+                  className="stop-btn p-3 bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] text-[var(--text-primary)] rounded-xl hover:bg-[rgba(239,68,68,0.15)] hover:text-[#ef4444] transition-all duration-200"
+                >
+                  <Square className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleSendMessage()}
+                  disabled={!inputMessage.trim() && !extractedText}
+                  className="send-btn p-3 bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white rounded-xl hover:shadow-[0_4px_12px_rgba(0,212,170,0.3)] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed hover:transform hover:-translate-y-1"
+                >
                   <Send className="w-5 h-5" />
-                )}
-              </button>
+                </button>
+              )}
             </div>
             <div className="mt-2 text-xs text-[var(--text-muted)] text-center">
               Press Enter to send • Upload files for OCR text extraction • This AI provides educational information only
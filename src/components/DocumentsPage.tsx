@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, FileText, Image, MessageSquare, RefreshCw, Trash2, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import MedicalLogo from './MedicalLogo';
+import ThemeToggle from './ThemeToggle';
+import DosingAnnotatedText from './DosingAnnotatedText';
+import MarkdownText from './MarkdownText';
+import StoredFileThumbnails from './StoredFileThumbnails';
+import { User } from '../App';
+import {
+  getUserActivities,
+  updateUserActivityAnalysis,
+  deleteUserActivity,
+  deleteDocumentFiles,
+  UserActivity
+} from '../lib/supabase';
+import { requestAnalysis } from '../lib/analysis';
+import { responseToText, splitSources, InvalidChatResponseError } from '../lib/chatResponse';
+import { ProcessedDocument, activityToDocument } from '../lib/documentText';
+
+interface DocumentsPageProps {
+  user: User;
+  onBack: () => void;
+  onOpenInChat: (extractedText: string, document: ProcessedDocument) => void;
+}
+
+const DocumentsPage: React.FC<DocumentsPageProps> = ({ user, onBack, onOpenInChat }) => {
+  const [activities, setActivities] = useState<UserActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [analyzingIds, setAnalyzingIds] = useState<string[]>([]);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadActivities = async () => {
+      const data = await getUserActivities(user.email);
+      setActivities(data);
+      setIsLoading(false);
+    };
+
+    loadActivities();
+  }, [user.email]);
+
+  const handleRerunAnalysis = async (activity: UserActivity) => {
+    setError('');
+    setAnalyzingIds(prev => [...prev, activity.id]);
+
+    try {
+      const savedDocument = activityToDocument(activity);
+      const response = await requestAnalysis({
+        message: activity.extracted_text,
+        attachment: 'image',
+        document: savedDocument,
+        context: 'upload',
+        documentText: activity.extracted_text,
+        redactions: savedDocument.redactions
+      });
+      const result = responseToText(response);
+
+      const saved = await updateUserActivityAnalysis(activity.id, result);
+      if (!saved) {
+        setError('The new analysis could not be saved. Please try again.');
+      }
+      setActivities(prev => prev.map(item => (item.id === activity.id ? { ...item, analysis_result: result } : item)));
+      setExpandedId(activity.id);
+    } catch (err) {
+      console.error('Error re-running analysis:', err);
+      setError(err instanceof InvalidChatResponseError
+        ? 'The analysis service replied in a format this app does not understand. Please try again later.'
+        : 'Analysis failed. Please try again in a moment.');
+    } finally {
+      setAnalyzingIds(prev => prev.filter(id => id !== activity.id));
+    }
+  };
+
+  const handleDelete = async (activity: UserActivity) => {
+    setConfirmDeleteId(null);
+    const success = await deleteUserActivity(activity.id);
+    if (success) {
+      // Originals go with the document; chats that showed them fall back to a placeholder
+      await deleteDocumentFiles(activity.file_paths || []);
+      setActivities(prev => prev.filter(item => item.id !== activity.id));
+    } else {
+      setError('Failed to delete the document. Please try again.');
+    }
+  };
+
+  return (
+    <div className="documents-page min-h-screen">
+      {/* Header */}
+      <div className="header bg-[var(--glass-bg)] backdrop-blur-[30px] border-b border-[var(--glass-border)] p-4 sticky top-0 z-30">
+        <div className="flex items-center justify-between max-w-5xl mx-auto">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="back-btn p-2 bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[rgba(255,255,255,0.15)] transition-all duration-200"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <MedicalLogo size={40} />
+            <div>
+              <h1 className="text-[var(--text-primary)] text-xl font-['Orbitron'] font-semibold">My Documents</h1>
+              <p className="text-[var(--text-secondary)] text-sm">Prescriptions and reports you have uploaded</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="text-[var(--text-secondary)] text-sm">{user.name}</div>
+            <ThemeToggle />
+          </div>
+        </div>
+      </div>
+
+      <div className="main-content p-6 max-w-5xl mx-auto">
+        {error && (
+          <div className="mb-4 p-3 bg-[rgba(239,68,68,0.1)] border border-[rgba(239,68,68,0.3)] rounded-xl text-[#ef4444] text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 p-10 text-[var(--text-secondary)]">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading documents...
+          </div>
+        ) : activities.length === 0 ? (
+          <div className="text-center text-[var(--text-muted)] italic p-10">
+            <FileText className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p className="mb-2">No documents yet</p>
+            <p className="text-xs">Uploaded prescriptions will appear here</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {activities.map(activity => {
+              const isExpanded = expandedId === activity.id;
+              const isAnalyzing = analyzingIds.includes(activity.id);
+              const medicineCount = activity.prescription?.medicines.length ?? 0;
+              const analysis = activity.analysis_result ? splitSources(activity.analysis_result) : null;
+
+              return (
+                <div
+                  key={activity.id}
+                  className="document-card bg-[var(--glass-bg)] backdrop-blur-[20px] border border-[var(--glass-border)] rounded-[20px] p-5"
+                >
+                  <div className="flex items-start gap-4">
+                    {activity.file_type?.startsWith('image/') ? (
+                      <Image className="w-6 h-6 text-[var(--primary-cyan)] flex-shrink-0 mt-1" />
+                    ) : (
+                      <FileText className="w-6 h-6 text-[var(--primary-cyan)] flex-shrink-0 mt-1" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-[var(--text-primary)] font-semibold truncate">
+                        {activity.file_name || 'Untitled upload'}
+                      </h3>
+                      <p className="text-xs text-[var(--text-muted)]">
+                        {new Date(activity.created_at).toLocaleString()}
+                        {activity.file_type && ` • ${activity.file_type}`}
+                        {activity.ocr_language && ` • OCR: ${activity.ocr_language}`}
+                        {medicineCount > 0 && ` • ${medicineCount} ${medicineCount === 1 ? 'medicine' : 'medicines'}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => onOpenInChat(activity.extracted_text, activityToDocument(activity))}
+                        title="Open in chat"
+                        className="p-2 bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white rounded-lg transition-all duration-200 hover:shadow-[0_4px_12px_rgba(0,212,170,0.3)]"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRerunAnalysis(activity)}
+                        disabled={isAnalyzing}
+                        title="Re-run analysis"
+                        className="p-2 bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[rgba(255,255,255,0.15)] transition-all duration-200 disabled:opacity-50"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${isAnalyzing ? 'animate-spin' : ''}`} />
+                      </button>
+                      {confirmDeleteId === activity.id ? (
+                        <>
+                          <button
+                            onClick={() => handleDelete(activity)}
+                            className="px-3 py-2 bg-[rgba(239,68,68,0.15)] border border-[rgba(239,68,68,0.3)] rounded-lg text-[#ef4444] text-xs font-semibold"
+                          >
+                            Delete
+                          </button>
+                          <button
+                            onClick={() => setConfirmDeleteId(null)}
+                            className="px-3 py-2 bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-lg text-[var(--text-secondary)] text-xs"
+                          >
+                            Keep
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => setConfirmDeleteId(activity.id)}
+                          title="Delete"
+                          className="p-2 bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-lg text-[var(--text-secondary)] hover:text-[#ef4444] hover:bg-[rgba(239,68,68,0.1)] transition-all duration-200"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {activity.file_paths && activity.file_paths.length > 0 && (
+                    <StoredFileThumbnails paths={activity.file_paths} className="mt-3" />
+                  )}
+
+                  <div className={`mt-3 bg-[rgba(255,255,255,0.05)] rounded-lg p-3 text-sm text-[var(--text-secondary)] leading-relaxed whitespace-pre-wrap ${
+                    isExpanded ? 'max-h-80 overflow-y-auto' : ''
+                  }`}>
+                    <DosingAnnotatedText
+                      text={isExpanded || activity.extracted_text.length <= 300
+                        ? activity.extracted_text
+                        : `${activity.extracted_text.substring(0, 300)}...`}
+                    />
+                  </div>
+
+                  {isExpanded && analysis && (
+                    <div className="mt-3 bg-[rgba(255,255,255,0.05)] border-l-4 border-[var(--primary-cyan)] rounded-lg p-3 text-sm text-[var(--text-secondary)] max-h-80 overflow-y-auto">
+                      <p className="text-xs font-semibold text-[var(--text-primary)] mb-2">Analysis</p>
+                      <MarkdownText
+                        text={analysis.body}
+                        footnotes={{ idPrefix: `analysis-${activity.id}-source`, count: analysis.sources.length }}
+                      />
+                      {analysis.sources.length > 0 && (
+                        <div className="citations border-t border-[var(--glass-border)] pt-2 mt-3">
+                          <h5 className="text-xs font-semibold text-[var(--text-muted)] mb-1">Sources</h5>
+                          <ol className="list-decimal list-inside text-xs space-y-0.5">
+                            {analysis.sources.map((source, index) => (
+                              <li key={index} id={`analysis-${activity.id}-source-${index + 1}`} className="break-words">{source}</li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : activity.id)}
+                    className="mt-2 text-xs text-[var(--primary-cyan)] hover:underline flex items-center gap-1"
+                  >
+                    {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                    {isExpanded
+                      ? 'Show less'
+                      : activity.analysis_result ? 'Show full text and analysis' : 'Show full text'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentsPage;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { annotateDosing, DosingCategory } from '../lib/dosingShorthand';
+
+interface DosingAnnotatedTextProps {
+  text: string;
+}
+
+const CATEGORY_STYLES: Record<DosingCategory, string> = {
+  frequency: 'bg-[rgba(0,212,170,0.15)] text-[var(--primary-cyan)]',
+  timing: 'bg-[rgba(139,92,246,0.15)] text-[var(--primary-purple)]',
+  route: 'bg-[rgba(245,158,11,0.15)] text-[#f59e0b]',
+};
+
+// Renders text with a plain-language note after each piece of dosing shorthand, e.g. "1-0-1 (1 tablet morning and night)"
+const DosingAnnotatedText: React.FC<DosingAnnotatedTextProps> = ({ text }) => {
+  const annotations = annotateDosing(text);
+  if (annotations.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  annotations.forEach((annotation, index) => {
+    if (annotation.start < cursor) return;
+    parts.push(text.slice(cursor, annotation.start));
+    parts.push(
+      <React.Fragment key={index}>
+        <span className="underline decoration-dotted underline-offset-2" title={annotation.meaning}>
+          {annotation.text}
+        </span>
+        <span className={`ml-1 px-1.5 rounded text-[0.75em] align-middle whitespace-nowrap ${CATEGORY_STYLES[annotation.category]}`}>
+          {annotation.meaning}
+        </span>
+      </React.Fragment>
+    );
+    cursor = annotation.end;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default DosingAnnotatedText;
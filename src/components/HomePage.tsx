@@ -6,16 +6,19 @@ import Modal from './Modal';
 import ThemeToggle from './ThemeToggle';
 import InteractiveTutorial from './InteractiveTutorial';
 import WelcomeModal from './WelcomeModal';
+import MarkdownText from './MarkdownText';
 import { getChatSessions, getChatMessages, ChatSession, ChatMessage } from '../lib/supabase';
+import { ProcessedDocument } from '../lib/documentText';
 
 interface HomePageProps {
   user: User;
   onLogout: () => void;
   onNavigateToChatbot: (context: 'upload' | 'medicine-search' | 'question') => void;
-  onNavigateToChatbotWithText?: (context: 'upload' | 'medicine-search' | 'question', extractedText: string) => void;
+  onNavigateToChatbotWithText?: (context: 'upload' | 'medicine-search' | 'question', extractedText: string, document?: ProcessedDocument) => void;
+  onNavigateToDocuments?: () => void;
 }
 
-const HomePage: React.FC<HomePageProps> = ({ user, onLogout, onNavigateToChatbot, onNavigateToChatbotWithText }) => {
+const HomePage: React.FC<HomePageProps> = ({ user, onLogout, onNavigateToChatbot, onNavigateToChatbotWithText, onNavigateToDocuments }) => {
   const [recentMessages, setRecentMessages] = useState<ChatMessage[]>([]);
   const [latestSession, setLatestSession] = useState<ChatSession | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
@@ -59,10 +62,10 @@ const HomePage: React.FC<HomePageProps> = ({ user, onLogout, onNavigateToChatbot
     }
   };
 
-  const handleAddAnswer = (extractedText: string) => {
+  const handleAddAnswer = (extractedText: string, document?: ProcessedDocument) => {
     // Navigate to chatbot with extracted text
     if (onNavigateToChatbotWithText) {
-      onNavigateToChatbotWithText('upload', extractedText);
+      onNavigateToChatbotWithText('upload', extractedText, document);
     }
     setModalOpen(false);
   };
@@ -116,6 +119,15 @@ const HomePage: React.FC<HomePageProps> = ({ user, onLogout, onNavigateToChatbot
           <div className="user-info text-[var(--text-secondary)] text-sm">
             Welcome, {user.name}
           </div>
+          {onNavigateToDocuments && (
+            <button
+              onClick={onNavigateToDocuments}
+              className="documents-btn p-[8px_16px] bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-lg text-[var(--text-secondary)] cursor-pointer transition-all duration-200 hover:bg-[rgba(255,255,255,0.15)] hover:text-[var(--text-primary)] flex items-center gap-2 text-sm"
+            >
+              <FileText className="w-4 h-4" />
+              My Documents
+            </button>
+          )}
           <ThemeToggle />
           <button
             onClick={onLogout}
@@ -249,14 +261,19 @@ const HomePage: React.FC<HomePageProps> = ({ user, onLogout, onNavigateToChatbot
                         })}
                       </span>
                     </div>
-                    <div className={`message-content leading-relaxed ${
-                      message.type === 'user' ? 'text-white' : 'text-[var(--text-secondary)]'
-                    }`}>
-                      {message.content.length > 200 
-                        ? `${message.content.substring(0, 200)}...` 
-                        : message.content
-                      }
-                    </div>
+                    {message.type === 'user' ? (
+                      <div className="message-content leading-relaxed text-white">
+                        {message.content.length > 200 
+                          ? `${message.content.substring(0, 200)}...` 
+                          : message.content
+                        }
+                      </div>
+                    ) : (
+                      // Clipped by height rather than characters so markdown isn't cut mid-syntax
+                      <div className="message-content relative max-h-32 overflow-hidden text-[var(--text-secondary)]">
+                        <MarkdownText text={message.content} />
+                      </div>
+                    )}
                   </div>
                 ))}
                 
@@ -0,0 +1,83 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { PreprocessingOptions, PREPROCESSING_STEPS } from '../lib/imagePreprocessing';
+import { UploadItem } from './UploadFileList';
+
+interface ImagePreprocessingPanelProps {
+  options: PreprocessingOptions;
+  onChange: (options: PreprocessingOptions) => void;
+  items: UploadItem[];
+  disabled?: boolean;
+}
+
+const describeReport = (item: UploadItem) => {
+  if (!item.preprocessing) return '';
+  const { rotation, skewAngle, cropped } = item.preprocessing;
+  const changes = [
+    cropped && 'cropped',
+    rotation !== 0 && `rotated ${rotation}°`,
+    skewAngle !== 0 && `straightened ${Math.abs(skewAngle)}°`,
+  ].filter(Boolean);
+  return changes.length > 0 ? changes.join(', ') : 'no geometry changes';
+};
+
+const ImagePreprocessingPanel: React.FC<ImagePreprocessingPanelProps> = ({ options, onChange, items, disabled }) => {
+  const imageItems = items.filter(item => item.previewUrl);
+
+  return (
+    <div className="image-preprocessing-panel bg-[rgba(255,255,255,0.05)] border border-[var(--glass-border)] rounded-xl p-3 mb-4">
+      <h4 className="text-[var(--text-primary)] text-sm font-semibold mb-2 flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-[var(--primary-cyan)]" />
+        Image Cleanup
+      </h4>
+      <div className="flex flex-wrap gap-x-4 gap-y-2 mb-1">
+        {PREPROCESSING_STEPS.map(step => (
+          <label
+            key={step.key}
+            className={`flex items-center gap-2 text-xs text-[var(--text-secondary)] ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+          >
+            <input
+              type="checkbox"
+              checked={options[step.key]}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...options, [step.key]: e.target.checked })}
+              className="accent-[var(--primary-cyan)]"
+            />
+            {step.label}
+          </label>
+        ))}
+      </div>
+
+      {imageItems.length > 0 && (
+        <div className="space-y-3 mt-3 max-h-64 overflow-y-auto">
+          {imageItems.map(item => (
+            <div key={item.id}>
+              <p className="text-xs text-[var(--text-muted)] mb-1 truncate">
+                {item.file.name}
+                {item.preprocessing && ` • ${describeReport(item)}`}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <figure className="bg-[rgba(0,0,0,0.2)] rounded-lg overflow-hidden">
+                  <img src={item.previewUrl} alt={`${item.file.name} before cleanup`} className="w-full h-32 object-contain" />
+                  <figcaption className="text-[10px] text-center text-[var(--text-muted)] py-1">Before</figcaption>
+                </figure>
+                <figure className="bg-[rgba(0,0,0,0.2)] rounded-lg overflow-hidden">
+                  {item.processedPreviewUrl ? (
+                    <img src={item.processedPreviewUrl} alt={`${item.file.name} after cleanup`} className="w-full h-32 object-contain" />
+                  ) : (
+                    <div className="w-full h-32 flex items-center justify-center text-xs text-[var(--text-muted)]">
+                      Processing...
+                    </div>
+                  )}
+                  <figcaption className="text-[10px] text-center text-[var(--text-muted)] py-1">After</figcaption>
+                </figure>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImagePreprocessingPanel;
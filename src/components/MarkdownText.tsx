@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import DosingAnnotatedText from './DosingAnnotatedText';
+
+interface Footnotes {
+  // Element ids are `${idPrefix}-${number}`
+  idPrefix: string;
+  count: number;
+}
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+  // Turns "[2]" in the text into a link to the second footnote
+  footnotes?: Footnotes;
+}
+
+const FOOTNOTE_MARKER = /\[(\d{1,3})\]/g;
+
+// Dosing shorthand inside paragraphs, list items and table cells still gets its plain-language note
+const annotateText = (text: string, footnotes?: Footnotes): React.ReactNode => {
+  if (!footnotes || footnotes.count === 0) return <DosingAnnotatedText text={text} />;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(FOOTNOTE_MARKER)) {
+    const number = Number(match[1]);
+    if (number < 1 || number > footnotes.count || match.index === undefined) continue;
+    parts.push(<DosingAnnotatedText key={cursor} text={text.slice(cursor, match.index)} />);
+    parts.push(
+      <sup key={`${match.index}-ref`}>
+        <a href={`#${footnotes.idPrefix}-${number}`} className="text-[var(--primary-cyan)] no-underline hover:underline">[{number}]</a>
+      </sup>
+    );
+    cursor = match.index + match[0].length;
+  }
+  parts.push(<DosingAnnotatedText key={cursor} text={text.slice(cursor)} />);
+  return parts;
+};
+
+const buildComponents = (footnotes?: Footnotes): Components => {
+  const annotate = (children: React.ReactNode) =>
+    React.Children.map(children, child => (typeof child === 'string' ? annotateText(child, footnotes) : child));
+
+  return {
+    h1: ({ children }) => <h3 className="text-lg font-bold text-[var(--text-primary)] mt-3 mb-2 first:mt-0">{children}</h3>,
+    h2: ({ children }) => <h4 className="text-base font-bold text-[var(--text-primary)] mt-3 mb-2 first:mt-0">{children}</h4>,
+    h3: ({ children }) => <h5 className="font-semibold text-[var(--text-primary)] mt-3 mb-1 first:mt-0">{children}</h5>,
+    h4: ({ children }) => <h6 className="font-semibold text-[var(--text-primary)] mt-2 mb-1 first:mt-0">{children}</h6>,
+    p: ({ children }) => <p className="mb-2 last:mb-0">{annotate(children)}</p>,
+    ul: ({ children }) => <ul className="list-disc pl-5 mb-2 last:mb-0 space-y-1">{children}</ul>,
+    ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 last:mb-0 space-y-1">{children}</ol>,
+    li: ({ children }) => <li>{annotate(children)}</li>,
+    a: ({ href, children }) => (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-[var(--primary-cyan)] underline underline-offset-2">
+        {children}
+      </a>
+    ),
+    blockquote: ({ children }) => (
+      <blockquote className="border-l-4 border-[var(--glass-border)] pl-3 my-2 text-[var(--text-secondary)]">{children}</blockquote>
+    ),
+    code: ({ className, children }) => (
+      <code className={`${className ?? ''} font-mono text-[0.85em] bg-[rgba(255,255,255,0.08)] rounded px-1`}>{children}</code>
+    ),
+    pre: ({ children }) => (
+      <pre className="my-2 p-3 rounded-xl bg-[rgba(0,0,0,0.25)] overflow-x-auto text-sm [&>code]:bg-transparent [&>code]:p-0">{children}</pre>
+    ),
+    table: ({ children }) => (
+      <div className="my-2 overflow-x-auto">
+        <table className="min-w-full text-sm border-collapse">{children}</table>
+      </div>
+    ),
+    th: ({ children }) => (
+      <th className="border border-[var(--glass-border)] px-2 py-1 text-left font-semibold bg-[rgba(255,255,255,0.05)]">{children}</th>
+    ),
+    td: ({ children }) => <td className="border border-[var(--glass-border)] px-2 py-1 align-top">{annotate(children)}</td>,
+    hr: () => <hr className="my-3 border-[var(--glass-border)]" />,
+    // Images from a reply could load anything; show their description instead
+    img: ({ alt }) => <span className="italic text-[var(--text-muted)]">{alt ? `[${alt}]` : '[image]'}</span>,
+  };
+};
+
+// Bot replies as markdown. Raw HTML in the text is dropped rather than rendered and unsafe link
+// protocols such as javascript: are removed, so replies can't inject markup or scripts.
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, className, footnotes }) => {
+  const idPrefix = footnotes?.idPrefix;
+  const count = footnotes?.count ?? 0;
+  const components = useMemo(() => buildComponents(idPrefix ? { idPrefix, count } : undefined), [idPrefix, count]);
+
+  return (
+    <div className={`markdown-text leading-relaxed break-words ${className ?? ''}`}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} skipHtml>
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownText;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Pill, ChevronDown, ChevronUp, Plus, Check, MessageSquare, Loader2 } from 'lucide-react';
+import DosingAnnotatedText from './DosingAnnotatedText';
+import { MedicineBlock, MEDICINE_SECTIONS } from '../lib/chatResponse';
+
+interface MedicineCardProps {
+  medicine: MedicineBlock;
+  // Already in the user's medicine list
+  saved?: boolean;
+  onAdd?: (medicine: MedicineBlock) => Promise<void>;
+  onAskFollowUp?: (medicine: MedicineBlock) => void;
+}
+
+interface Section {
+  key: string;
+  label: string;
+  items: string[];
+}
+
+// One medicine from a structured reply, with each kind of information in its own collapsible section
+const MedicineCard: React.FC<MedicineCardProps> = ({ medicine, saved, onAdd, onAskFollowUp }) => {
+  const sections: Section[] = MEDICINE_SECTIONS
+    .map(({ field, label }) => ({ key: field, label, items: medicine[field] ?? [] }))
+    .filter(section => section.items.length > 0);
+  if (medicine.dosage) {
+    const afterIndications = sections[0]?.key === 'uses' ? 1 : 0;
+    sections.splice(afterIndications, 0, { key: 'dosage', label: 'Dosing', items: [medicine.dosage] });
+  }
+
+  // The first section starts open so the card is useful at a glance
+  const [openSections, setOpenSections] = useState<string[]>(sections.length > 0 ? [sections[0].key] : []);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const toggleSection = (key: string) => {
+    setOpenSections(prev => (prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key]));
+  };
+
+  const handleAdd = async () => {
+    if (!onAdd) return;
+    setIsAdding(true);
+    try {
+      await onAdd(medicine);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="medicine-card bg-[rgba(255,255,255,0.05)] border border-[var(--glass-border)] rounded-xl p-3">
+      <div className="flex items-center gap-2 mb-2">
+        <Pill className="w-4 h-4 text-[var(--primary-cyan)] flex-shrink-0" />
+        <span className="font-semibold">{medicine.name}</span>
+        {medicine.generic_name && <span className="text-xs text-[var(--text-muted)]">({medicine.generic_name})</span>}
+      </div>
+
+      <div className="divide-y divide-[var(--glass-border)]">
+        {sections.map(section => {
+          const isOpen = openSections.includes(section.key);
+          return (
+            <div key={section.key} className="medicine-section">
+              <button
+                type="button"
+                onClick={() => toggleSection(section.key)}
+                aria-expanded={isOpen}
+                className="w-full flex items-center justify-between py-1.5 text-xs font-semibold text-[var(--text-muted)] uppercase tracking-wide hover:text-[var(--text-primary)] transition-colors"
+              >
+                {section.label}
+                {isOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              </button>
+              {isOpen && (
+                section.key === 'dosage' ? (
+                  <p className="text-sm text-[var(--text-secondary)] pb-2">
+                    <DosingAnnotatedText text={section.items[0]} />
+                  </p>
+                ) : (
+                  <ul className="list-disc pl-5 pb-2 text-sm text-[var(--text-secondary)] space-y-0.5">
+                    {section.items.map((item, index) => <li key={index}>{item}</li>)}
+                  </ul>
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {(onAdd || onAskFollowUp) && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {onAdd && (
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={saved || isAdding}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs bg-[rgba(0,212,170,0.15)] text-[var(--primary-cyan)] hover:bg-[rgba(0,212,170,0.25)] transition-colors disabled:opacity-70 disabled:cursor-default"
+            >
+              {isAdding ? <Loader2 className="w-3 h-3 animate-spin" /> : saved ? <Check className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+              {saved ? 'In my medicines' : 'Add to my medicines'}
+            </button>
+          )}
+          {onAskFollowUp && (
+            <button
+              type="button"
+              onClick={() => onAskFollowUp(medicine)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs bg-[rgba(255,255,255,0.05)] border border-[var(--glass-border)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+            >
+              <MessageSquare className="w-3 h-3" />
+              Ask a follow-up
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MedicineCard;
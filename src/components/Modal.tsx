@@ -1,13 +1,40 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { X, Upload, Search, MessageSquare, Link, FileText } from 'lucide-react';
-import { createWorker } from 'tesseract.js';
+import {
+  prewarmOcr,
+  isAbortError,
+  wordsToText,
+  DEFAULT_OCR_LANGUAGE,
+  AUTO_DETECT_LANGUAGE
+} from '../lib/ocrService';
+import { DOCUMENT_EXTRACTORS, ACCEPTED_FILE_TYPES, SUPPORTED_FORMATS, findExtractor } from '../lib/extractors';
+import { fetchUrlAsFile } from '../lib/urlImport';
+import {
+  ExtractedPage,
+  ProcessedDocument,
+  combinePages,
+  getDocumentLanguage,
+  collectCorrections
+} from '../lib/documentText';
+import { insertUserActivity, uploadDocumentFiles } from '../lib/supabase';
+import { Prescription, isPrescriptionEmpty } from '../lib/prescriptionParser';
+import { detectPii, buildRedactionMap } from '../lib/piiRedaction';
+import { DEFAULT_PREPROCESSING_OPTIONS, PreprocessingOptions } from '../lib/imagePreprocessing';
+import { downscaleImageFile, parsePrescription } from '../lib/extractionWorker';
+import UploadFileList, { UploadItem } from './UploadFileList';
+import ImagePreprocessingPanel from './ImagePreprocessingPanel';
+import OcrLanguageSelector from './OcrLanguageSelector';
+import OcrReviewPanel, { ReviewPage } from './OcrReviewPanel';
+import PrescriptionEditor from './PrescriptionEditor';
+import RedactionReviewPanel from './RedactionReviewPanel';
+import DosingAnnotatedText from './DosingAnnotatedText';
 
 interface ModalProps {
   isOpen: boolean;
   onClose: () => void;
   title: string;
   type: 'upload' | 'medicine-search' | 'question';
-  onSubmit?: (data: string) => void;
+  onSubmit?: (data: string, document?: ProcessedDocument) => void;
   userEmail?: string;
 }
 
@@ -18,25 +45,92 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
   const [uploadTab, setUploadTab] = useState<'file' | 'url'>('file');
   const [urlInput, setUrlInput] = useState('');
   const [uploadError, setUploadError] = useState('');
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [extractedText, setExtractedText] = useState('');
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadItems, setUploadItems] = useState<UploadItem[]>([]);
+  const [preprocessingOptions, setPreprocessingOptions] = useState<PreprocessingOptions>(DEFAULT_PREPROCESSING_OPTIONS);
+  const [ocrLanguages, setOcrLanguages] = useState<string[]>([DEFAULT_OCR_LANGUAGE]);
+  const [autoDetectLanguage, setAutoDetectLanguage] = useState(false);
+  const [showOcrReview, setShowOcrReview] = useState(false);
+  const [parsedPrescription, setParsedPrescription] = useState<Prescription | null>(null);
+  const [editedPrescription, setEditedPrescription] = useState<Prescription | null>(null);
+  const [excludedRedactions, setExcludedRedactions] = useState<string[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const [isFetchingUrl, setIsFetchingUrl] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+
+  // Warm up the OCR engine as soon as the upload dialog opens
+  useEffect(() => {
+    if (isOpen && type === 'upload') {
+      prewarmOcr();
+    }
+  }, [isOpen, type]);
+
+  // Stop in-flight recognition if the modal is unmounted mid-upload
+  useEffect(() => {
+    const controllers = abortControllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  const ocrLanguage = autoDetectLanguage ? AUTO_DETECT_LANGUAGE : ocrLanguages.join('+');
+  const isProcessing = uploadItems.some(item => item.status === 'pending' || item.status === 'processing');
+  const overallProgress = uploadItems.length > 0
+    ? uploadItems.reduce((sum, item) => sum + (item.status === 'error' ? 1 : item.progress), 0) / uploadItems.length
+    : 0;
+
+  // Flatten every processed file into one consecutively numbered document
+  const extractedPages: ExtractedPage[] = uploadItems
+    .filter(item => item.status === 'done')
+    .flatMap(item => item.pages.map(page => ({
+      ...page,
+      fileName: uploadItems.length > 1 ? item.file.name : undefined
+    })))
+    .map((page, index) => ({ ...page, pageNumber: index + 1 }));
+  const extractedText = combinePages(
+    extractedPages,
+    extractedPages.length > 1 || extractedPages.some(page => page.source === 'text-layer')
+  ).trim();
+
+  // Re-read the prescription in the extraction worker whenever the combined text changes
+  useEffect(() => {
+    if (!extractedText) {
+      setParsedPrescription(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    parsePrescription(extractedText, controller.signal)
+      .then(setParsedPrescription)
+      .catch(error => {
+        if (!isAbortError(error)) console.error('Error parsing prescription:', error);
+      });
+    return () => controller.abort();
+  }, [extractedText]);
 
   if (!isOpen) return null;
 
+  // OCR'd pages that can be checked word by word against their image
+  const reviewPages: ReviewPage[] = uploadItems
+    .filter(item => item.status === 'done')
+    .flatMap(item => item.pages.map((page, index) => ({
+      id: `${item.id}#${index}`,
+      label: item.pages.length > 1 ? `${item.file.name} p.${page.pageNumber}` : item.file.name,
+      page
+    })))
+    .filter(entry => entry.page.image && entry.page.words && entry.page.words.length > 0);
+
+  // Re-read from the text on every change until the user edits the table themselves
+  const prescription = editedPrescription ?? (extractedText ? parsedPrescription : null);
+  const submittedPrescription = prescription && !isPrescriptionEmpty(prescription) ? prescription : null;
+
+  // Personal details are hidden from the analysis service unless the user unticks them
+  const piiFindings = extractedText ? detectPii(extractedText, prescription) : [];
+  const redactions = buildRedactionMap(piiFindings.filter(finding => !excludedRedactions.includes(finding.key)));
+
   const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
-  const SUPPORTED_FILE_TYPES = [
-    'application/pdf',
-    'text/plain',
-    'image/jpeg',
-    'image/jpg',
-    'image/png',
-    'image/gif',
-    'image/bmp',
-    'image/webp'
-  ];
+  const MAX_IMAGE_INPUT_SIZE = 50 * 1024 * 1024; // Larger photos are resized down to MAX_FILE_SIZE
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -66,86 +160,189 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
     }
   };
 
-  const extractTextFromFile = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      if (file.type === 'text/plain') {
-        // Handle text files
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const text = e.target?.result as string;
-          resolve(text);
-        };
-        reader.onerror = () => reject(new Error('Failed to read text file'));
-        reader.readAsText(file);
-      } else if (file.type === 'application/pdf') {
-        // For PDF files, we'll simulate text extraction
-        // In a real application, you'd use a library like pdf-parse or PDF.js
-        setTimeout(() => {
-          resolve(`[PDF Content Extracted from: ${file.name}]\n\nThis is simulated text extraction from a PDF file. In a real implementation, this would contain the actual text content extracted from the PDF using libraries like PDF.js or pdf-parse.\n\nThe extracted content would include all readable text from the document, maintaining structure and formatting where possible.`);
-        }, 2000);
-      } else if (file.type.startsWith('image/')) {
-        // Real OCR implementation using Tesseract.js
-        const performOCR = async () => {
-          try {
-            const worker = await createWorker('eng');
-            const { data: { text } } = await worker.recognize(file);
-            await worker.terminate();
-            
-            if (!text || text.trim().length === 0) {
-              throw new Error('No text could be extracted from the image. Please ensure the image is clear and contains readable text.');
-            }
-            
-            // Clean up common OCR artifacts
-            const cleanedText = text
-              .replace(/\n\s*\n/g, '\n') // Remove multiple empty lines
-              .replace(/[^\w\s\-.,;:()\[\]]/g, '') // Remove unusual characters
-              .trim();
-            
-            resolve(cleanedText);
-          } catch (error) {
-            reject(new Error(`OCR processing failed: ${(error as Error).message}`));
-          }
-        };
-        
-        performOCR();
-      } else {
-        reject(new Error('Unsupported file type for text extraction'));
-      }
+  const updateUploadItem = (id: string, changes: Partial<UploadItem>) => {
+    setUploadItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  // Processed previews and rendered PDF pages are regenerated on every OCR run
+  const revokeProcessedUrls = (item: UploadItem) => {
+    const urls = new Set(item.pages.map(page => page.image?.url));
+    urls.add(item.processedPreviewUrl);
+    urls.forEach(url => {
+      if (url) URL.revokeObjectURL(url);
     });
   };
 
-  const handleFileValidation = async (files: FileList) => {
-    const file = files[0]; // Only handle first file for now
-    
-    // Check if file type is supported
-    if (!SUPPORTED_FILE_TYPES.includes(file.type)) {
-      setUploadError('Supported file types: PDF, TXT, JPG, PNG, GIF, BMP, WebP');
-      return;
-    }
-    
-    // Check file size
-    if (file.size > MAX_FILE_SIZE) {
-      setUploadError('File size must be less than 10MB');
-      return;
-    }
-    
-    setUploadError('');
-    setUploadedFile(file);
-    setIsProcessing(true);
-    
-    try {
-      const extractedText = await extractTextFromFile(file);
-      setExtractedText(extractedText);
-      console.log('File processed successfully:', file.name);
-      console.log('Extracted text:', extractedText);
-    } catch (error) {
-      setUploadError(`Failed to process file: ${(error as Error).message}`);
-      setUploadedFile(null);
-    } finally {
-      setIsProcessing(false);
+  const revokeItemUrls = (item: UploadItem) => {
+    if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+    revokeProcessedUrls(item);
+  };
+
+  // Process files one at a time so each gets its own progress
+  const processUploadItems = async (
+    items: UploadItem[],
+    options: PreprocessingOptions,
+    language: string
+  ) => {
+    const controllers = abortControllersRef.current;
+    items.forEach(item => controllers.set(item.id, new AbortController()));
+
+    for (const item of items) {
+      const controller = controllers.get(item.id);
+      if (!controller || controller.signal.aborted) continue;
+
+      updateUploadItem(item.id, { status: 'processing', progress: 0 });
+
+      try {
+        let file = item.file;
+        const extractor = findExtractor(file);
+        if (!extractor) {
+          throw new Error('Unsupported file type for text extraction');
+        }
+
+        if (extractor.browserImage && file.size > MAX_FILE_SIZE) {
+          const resized = await downscaleImageFile(file, MAX_FILE_SIZE, controller.signal);
+          if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+          file = resized.file;
+          updateUploadItem(item.id, {
+            file,
+            originalFile: item.originalFile ?? item.file,
+            resize: resized.resize,
+            previewUrl: URL.createObjectURL(file)
+          });
+        }
+
+        const pages = await extractor.extract(file, {
+          onProgress: (progress) => updateUploadItem(item.id, { progress }),
+          preprocessing: options,
+          language,
+          onPreprocessed: (processedPreviewUrl, report) => {
+            updateUploadItem(item.id, { processedPreviewUrl, preprocessing: report });
+          },
+          signal: controller.signal
+        });
+        updateUploadItem(item.id, { status: 'done', progress: 1, pages });
+        console.log('File processed successfully:', file.name);
+      } catch (error) {
+        updateUploadItem(item.id, {
+          status: 'error',
+          error: isAbortError(error) ? 'Cancelled' : `Failed to process file: ${(error as Error).message}`
+        });
+      } finally {
+        controllers.delete(item.id);
+      }
     }
   };
 
+  const cancelProcessing = (ids?: string[]) => {
+    abortControllersRef.current.forEach((controller, id) => {
+      if (!ids || ids.includes(id)) controller.abort();
+    });
+  };
+
+  const handleFileValidation = async (files: FileList | File[]) => {
+    const accepted: UploadItem[] = [];
+    const rejected: string[] = [];
+
+    Array.from(files).forEach((file, index) => {
+      // Check if file type is supported
+      const extractor = findExtractor(file);
+      if (!extractor) {
+        rejected.push(`${file.name}: supported file types are ${SUPPORTED_FORMATS}`);
+        return;
+      }
+
+      // Check file size; photos over the limit are resized instead of rejected
+      if (extractor.browserImage ? file.size > MAX_IMAGE_INPUT_SIZE : file.size > MAX_FILE_SIZE) {
+        rejected.push(`${file.name}: file size must be less than ${extractor.browserImage ? '50MB' : '10MB'}`);
+        return;
+      }
+
+      accepted.push({
+        id: `${Date.now()}-${index}-${file.name}`,
+        file,
+        status: 'pending',
+        progress: 0,
+        pages: [],
+        previewUrl: extractor.browserImage ? URL.createObjectURL(file) : undefined
+      });
+    });
+
+    setUploadError(rejected.join('\n'));
+    if (accepted.length === 0) return;
+
+    setUploadItems(prev => [...prev, ...accepted]);
+    await processUploadItems(accepted, preprocessingOptions, ocrLanguage);
+  };
+
+  // Re-run OCR on the given files after a setting changes
+  const reprocessUploadItems = (
+    shouldReprocess: (item: UploadItem) => boolean,
+    options: PreprocessingOptions,
+    language: string
+  ) => {
+    const items = uploadItems.filter(shouldReprocess);
+    if (items.length === 0) return;
+
+    items.forEach(revokeProcessedUrls);
+    const ids = items.map(item => item.id);
+    setUploadItems(prev => prev.map(item => ids.includes(item.id)
+      ? { ...item, status: 'pending', progress: 0, pages: [], processedPreviewUrl: undefined, preprocessing: undefined }
+      : item
+    ));
+    processUploadItems(items, options, language);
+  };
+
+  const handlePreprocessingChange = (options: PreprocessingOptions) => {
+    setPreprocessingOptions(options);
+    reprocessUploadItems(item => Boolean(findExtractor(item.file)?.ocr), options, ocrLanguage);
+  };
+
+  const handleOcrLanguageChange = (languages: string[], autoDetect: boolean) => {
+    setOcrLanguages(languages);
+    setAutoDetectLanguage(autoDetect);
+    reprocessUploadItems(
+      item => Boolean(findExtractor(item.file)?.ocr) || item.pages.some(page => page.source === 'ocr'),
+      preprocessingOptions,
+      autoDetect ? AUTO_DETECT_LANGUAGE : languages.join('+')
+    );
+  };
+
+  const handleCorrectWord = (pageId: string, wordIndex: number, corrected: string | undefined) => {
+    const separator = pageId.lastIndexOf('#');
+    const itemId = pageId.slice(0, separator);
+    const pageIndex = pageId.slice(separator + 1);
+    setUploadItems(prev => prev.map(item => {
+      if (item.id !== itemId) return item;
+
+      const pages = item.pages.map((page, index) => {
+        if (index !== Number(pageIndex) || !page.words) return page;
+        const words = page.words.map((word, i) => i === wordIndex ? { ...word, corrected } : word);
+        return { ...page, words, text: wordsToText(words) };
+      });
+      return { ...item, pages };
+    }));
+  };
+
+  const handleMoveUploadItem = (id: string, direction: -1 | 1) => {
+    setUploadItems(prev => {
+      const index = prev.findIndex(item => item.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const handleRemoveUploadItem = (id: string) => {
+    cancelProcessing([id]);
+    const removed = uploadItems.find(item => item.id === id);
+    if (removed) revokeItemUrls(removed);
+    setUploadItems(prev => prev.filter(item => item.id !== id));
+  };
+
   const handleProcessFile = async () => {
     if (!extractedText) {
       console.error('Missing extracted text');
@@ -155,14 +352,44 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
     setIsSaving(true);
 
     try {
-      // Pass extracted text to parent component for chatbot navigation
+      // Record the upload, including the OCR language so it can be re-run later
+      let activityId: string | undefined;
+      let filePaths: string[] = [];
+      if (userEmail) {
+        // Keep the originals, not the resized copies, so the OCR can be checked against the source later
+        const originalFiles = uploadItems
+          .filter(item => item.status === 'done')
+          .map(item => item.originalFile ?? item.file);
+        filePaths = await uploadDocumentFiles(originalFiles);
+        const activity = await insertUserActivity({
+          user_email: userEmail,
+          extracted_text: extractedText,
+          file_name: originalFiles.map(file => file.name).join(', '),
+          file_type: Array.from(new Set(originalFiles.map(file => file.type))).join(', '),
+          ocr_language: getDocumentLanguage(extractedPages),
+          prescription: submittedPrescription,
+          file_paths: filePaths
+        });
+        activityId = activity?.id;
+      }
+
+      // Pass the combined document to parent component for chatbot navigation
       if (onSubmit) {
-        onSubmit(extractedText);
+        onSubmit(extractedText, {
+          text: extractedText,
+          corrections: collectCorrections(extractedPages),
+          prescription: submittedPrescription,
+          activityId,
+          filePaths,
+          redactions
+        });
       }
       
       // Reset state and close modal
-      setExtractedText('');
-      setUploadedFile(null);
+      uploadItems.forEach(revokeItemUrls);
+      setUploadItems([]);
+      setEditedPrescription(null);
+      setExcludedRedactions([]);
       onClose();
       
     } catch (error) {
@@ -173,39 +400,34 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
     }
   };
 
-  const handleProcessFileOriginal = () => {
-    if (extractedText && onSubmit) {
-      onSubmit(extractedText);
-      // Reset state
-      setExtractedText('');
-      setUploadedFile(null);
-      onClose();
-    }
-  };
+  // Download the linked document server-side, then treat it like a dropped file
+  const handleUrlSubmit = async () => {
+    const url = urlInput.trim();
+    if (!url || isFetchingUrl) return;
 
-  const handleUrlSubmit = () => {
-    if (!urlInput.trim()) {
+    try {
+      new URL(url);
+    } catch {
       setUploadError('Please enter a valid URL');
       return;
     }
-    
-    // Basic URL validation
+
+    setUploadError('');
+    setIsFetchingUrl(true);
+
+    let file: File;
     try {
-      new URL(urlInput.trim());
-      
-      // Create prefixed URL text for analysis
-      const prefixedUrlText = `Please analyze the prescription at this URL: ${urlInput.trim()}`;
-      
-      if (onSubmit) {
-        onSubmit(prefixedUrlText);
-      }
-      
-      setUploadError('');
-      setUrlInput('');
-      onClose();
+      file = await fetchUrlAsFile(url);
     } catch (error) {
-      setUploadError('Please enter a valid URL');
+      console.error('Error fetching URL:', error);
+      setUploadError((error as Error).message);
+      return;
+    } finally {
+      setIsFetchingUrl(false);
     }
+
+    setUrlInput('');
+    await handleFileValidation([file]);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -221,10 +443,17 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
   };
 
   const resetUploadState = () => {
-    setExtractedText('');
-    setUploadedFile(null);
+    cancelProcessing();
+    uploadItems.forEach(revokeItemUrls);
+    setUploadItems([]);
+    setEditedPrescription(null);
+    setExcludedRedactions([]);
     setUploadError('');
-    setIsProcessing(false);
+  };
+
+  const handleClose = () => {
+    resetUploadState();
+    onClose();
   };
 
   const renderContent = () => {
@@ -267,23 +496,64 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
 
             {/* Error Message */}
             {uploadError && (
-              <div className="error-message bg-[rgba(239,68,68,0.1)] border border-[rgba(239,68,68,0.3)] rounded-xl p-3 text-[#ef4444] text-sm mb-4 text-center">
+              <div className="error-message bg-[rgba(239,68,68,0.1)] border border-[rgba(239,68,68,0.3)] rounded-xl p-3 text-[#ef4444] text-sm mb-4 text-center whitespace-pre-line">
                 {uploadError}
               </div>
             )}
 
+            {/* Uploaded Files */}
+            {uploadItems.length > 0 && (
+              <UploadFileList
+                items={uploadItems}
+                onMove={handleMoveUploadItem}
+                onRemove={handleRemoveUploadItem}
+                disabled={isSaving}
+              />
+            )}
+
+            {/* OCR Language */}
+            <OcrLanguageSelector
+              languages={ocrLanguages}
+              autoDetect={autoDetectLanguage}
+              onChange={handleOcrLanguageChange}
+              disabled={isProcessing || isSaving}
+            />
+
+            {/* Image Cleanup */}
+            {uploadItems.some(item => item.previewUrl) && (
+              <ImagePreprocessingPanel
+                options={preprocessingOptions}
+                onChange={handlePreprocessingChange}
+                items={uploadItems}
+                disabled={isProcessing || isSaving}
+              />
+            )}
+
             {/* Processing Message */}
             {isProcessing && (
               <div className="processing-message bg-[rgba(0,212,170,0.1)] border border-[rgba(0,212,170,0.3)] rounded-xl p-4 text-[var(--primary-cyan)] text-sm mb-4 text-center">
                 <div className="flex items-center justify-center gap-2 mb-2">
                   <div className="w-4 h-4 border-2 border-[var(--primary-cyan)] border-t-transparent rounded-full animate-spin"></div>
-                  <span>Processing file...</span>
+                  <span>
+                    Processing file {uploadItems.filter(item => item.status === 'done' || item.status === 'error').length + 1} of {uploadItems.length}... {Math.round(overallProgress * 100)}%
+                  </span>
+                </div>
+                <div className="h-1.5 bg-[rgba(255,255,255,0.1)] rounded-full overflow-hidden mb-2">
+                  <div
+                    className="h-full bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] transition-all duration-300"
+                    style={{ width: `${Math.round(overallProgress * 100)}%` }}
+                  />
                 </div>
-                <p className="text-xs text-[var(--text-muted)]">
-                  {uploadedFile?.type === 'application/pdf' && 'Extracting text from PDF...'}
-                  {uploadedFile?.type === 'text/plain' && 'Reading text file...'}
-                  {uploadedFile?.type.startsWith('image/') && 'Performing OCR on image...'}
+                <p className="text-xs text-[var(--text-muted)] mb-2">
+                  Extracting text from PDFs and performing OCR on images
                 </p>
+                <button
+                  type="button"
+                  onClick={() => cancelProcessing()}
+                  className="text-xs px-3 py-1 bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[rgba(255,255,255,0.15)] transition-all duration-200"
+                >
+                  Cancel
+                </button>
               </div>
             )}
 
@@ -294,20 +564,95 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
                   <FileText className="w-4 h-4 text-[var(--primary-cyan)]" />
                   Extracted Text Preview
                 </h4>
-                <div className="max-h-32 overflow-y-auto bg-[rgba(255,255,255,0.05)] rounded-lg p-3 text-sm text-[var(--text-secondary)] leading-relaxed">
-                  {extractedText.substring(0, 300)}
-                  {extractedText.length > 300 && '...'}
+                {extractedPages.length > 1 || extractedPages.some(page => page.source === 'text-layer') ? (
+                  <div className="max-h-48 overflow-y-auto space-y-2">
+                    {extractedPages.map((page) => (
+                      <div
+                        key={page.pageNumber}
+                        className="bg-[rgba(255,255,255,0.05)] rounded-lg p-3 text-sm text-[var(--text-secondary)] leading-relaxed"
+                      >
+                        <div className="flex items-center justify-between gap-2 mb-1 text-xs font-semibold text-[var(--text-primary)]">
+                          <span className="truncate">
+                            Page {page.pageNumber}
+                            {page.fileName && <span className="font-normal text-[var(--text-muted)]"> • {page.fileName}</span>}
+                          </span>
+                          {page.source === 'ocr' && (
+                            <span className="text-[var(--text-muted)] font-normal">OCR</span>
+                          )}
+                        </div>
+                        <div className="whitespace-pre-wrap">
+                          {page.text
+                            ? <DosingAnnotatedText text={page.text.substring(0, 300)} />
+                            : <span className="italic text-[var(--text-muted)]">No text found on this page</span>}
+                          {page.text.length > 300 && '...'}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="max-h-32 overflow-y-auto bg-[rgba(255,255,255,0.05)] rounded-lg p-3 text-sm text-[var(--text-secondary)] leading-relaxed">
+                    <DosingAnnotatedText text={extractedText.substring(0, 300)} />
+                    {extractedText.length > 300 && '...'}
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-2 mt-2">
+                  <p className="text-xs text-[var(--text-muted)]">
+                    {extractedText.length} characters extracted from {extractedPages.length} {extractedPages.length === 1 ? 'page' : 'pages'}
+                  </p>
+                  {reviewPages.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setShowOcrReview(!showOcrReview)}
+                      className="text-xs text-[var(--primary-cyan)] hover:underline whitespace-nowrap"
+                    >
+                      {showOcrReview ? 'Hide word review' : 'Review recognized words'}
+                    </button>
+                  )}
                 </div>
-                <p className="text-xs text-[var(--text-muted)] mt-2">
-                  {extractedText.length} characters extracted from {uploadedFile?.name}
-                </p>
               </div>
             )}
 
+            {/* OCR Word Review */}
+            {showOcrReview && reviewPages.length > 0 && !isProcessing && (
+              <OcrReviewPanel pages={reviewPages} onCorrectWord={handleCorrectWord} />
+            )}
+
+            {/* Parsed Prescription */}
+            {prescription && !isProcessing && (
+              <PrescriptionEditor
+                prescription={prescription}
+                onChange={setEditedPrescription}
+                onReset={editedPrescription ? () => setEditedPrescription(null) : undefined}
+                disabled={isSaving}
+              />
+            )}
+
+            {/* Personal details hidden before analysis */}
+            {piiFindings.length > 0 && !isProcessing && (
+              <RedactionReviewPanel
+                findings={piiFindings}
+                excludedKeys={excludedRedactions}
+                onChange={setExcludedRedactions}
+                disabled={isSaving}
+              />
+            )}
+
             {/* File Upload Tab */}
             {uploadTab === 'file' && (
               <>
-                {!extractedText && !isProcessing && (
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={ACCEPTED_FILE_TYPES}
+                  onChange={(e) => {
+                    handleFileSelect(e);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                />
+
+                {uploadItems.length === 0 ? (
                   <div
                     className={`file-upload-area border-2 border-dashed rounded-xl p-10 text-center mb-5 transition-all duration-300 cursor-pointer ${
                       dragOver
@@ -319,63 +664,43 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
                     onDrop={handleDrop}
                     onClick={() => fileInputRef.current?.click()}
                   >
-                    <input
-                      ref={fileInputRef}
-                      type="file"
-                      accept=".pdf,.txt,.jpg,.jpeg,.png,.gif,.bmp,.webp,application/pdf,text/plain,image/*"
-                      onChange={handleFileSelect}
-                      className="hidden"
-                    />
                     <Upload className="w-12 h-12 text-[var(--text-muted)] mx-auto mb-4" />
                     <h3 className="text-[var(--text-primary)] text-lg font-semibold mb-2">
                       Drop files here or click to browse
                     </h3>
                     <p className="text-[var(--text-secondary)] text-sm mb-2">
-                      Supported formats: PDF, TXT, JPG, PNG, GIF, BMP, WebP
+                      Supported formats: {SUPPORTED_FORMATS}
                     </p>
                     <div className="text-xs text-[var(--text-muted)] space-y-1">
-                      <p>• PDF files: Text extraction</p>
-                      <p>• Text files: Direct content reading</p>
-                      <p>• Images: OCR text recognition</p>
-                      <p className="mt-2">Maximum file size: 10MB</p>
+                      {DOCUMENT_EXTRACTORS.map(extractor => (
+                        <p key={extractor.name}>• {extractor.name}: {extractor.description}</p>
+                      ))}
+                      <p>• Select several files for multi-page prescriptions</p>
+                      <p className="mt-2">Maximum file size: 10MB per file; larger photos are resized automatically</p>
                     </div>
                   </div>
-                )}
-                
-                {extractedText && !isProcessing && (
-                  <div className="flex gap-3">
-                    <button
-                      onClick={handleProcessFile}
-                      disabled={isSaving}
-                      className="feature-button flex-1 p-[12px_24px] bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white border-none rounded-[10px] font-semibold cursor-pointer transition-all duration-200 hover:transform hover:-translate-y-[2px] hover:shadow-[0_8px_20px_rgba(0,212,170,0.3)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                    >
-                      {isSaving ? (
-                        <>
-                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                          Saving...
-                        </>
-                      ) : (
-                        <>
-                          <FileText className="w-4 h-4" />
-                          Analyze Extracted Text
-                        </>
-                      )}
-                    </button>
-                    <button
-                      onClick={resetUploadState}
-                      disabled={isSaving}
-                      className="p-[12px_24px] bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-[10px] text-[var(--text-secondary)] cursor-pointer transition-all duration-200 hover:bg-[rgba(255,255,255,0.15)] hover:text-[var(--text-primary)] disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      Upload Different File
-                    </button>
+                ) : (
+                  <div
+                    className={`file-upload-area border-2 border-dashed rounded-xl p-4 text-center mb-4 transition-all duration-300 cursor-pointer text-sm ${
+                      dragOver
+                        ? 'border-[var(--primary-cyan)] bg-[rgba(0,212,170,0.1)] text-[var(--text-primary)]'
+                        : 'border-[var(--glass-border)] text-[var(--text-secondary)] hover:border-[var(--primary-cyan)] hover:bg-[rgba(0,212,170,0.05)]'
+                    }`}
+                    onDragOver={handleDragOver}
+                    onDragLeave={handleDragLeave}
+                    onDrop={handleDrop}
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Upload className="w-4 h-4 inline mr-2" />
+                    Add more pages
                   </div>
                 )}
                 
-                {!extractedText && !isProcessing && (
+                {uploadItems.length === 0 && (
                   <div className="text-center">
                     <button
                       type="button"
-                      onClick={onClose}
+                      onClick={handleClose}
                       className="p-[12px_24px] bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-[10px] text-[var(--text-secondary)] cursor-pointer transition-all duration-200 hover:bg-[rgba(255,255,255,0.15)] hover:text-[var(--text-primary)]"
                     >
                       Cancel
@@ -396,32 +721,80 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
                     type="url"
                     value={urlInput}
                     onChange={(e) => setUrlInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleUrlSubmit();
+                      }
+                    }}
+                    disabled={isFetchingUrl}
                     placeholder="https://example.com/document.pdf or any valid URL"
-                    className="url-input w-full p-4 bg-[rgba(255,255,255,0.08)] border border-[var(--glass-border)] rounded-xl text-[var(--text-primary)] text-base focus:outline-none focus:border-[var(--primary-cyan)] focus:shadow-[0_0_0_3px_rgba(0,212,170,0.15)]"
+                    className="url-input w-full p-4 bg-[rgba(255,255,255,0.08)] border border-[var(--glass-border)] rounded-xl text-[var(--text-primary)] text-base focus:outline-none focus:border-[var(--primary-cyan)] focus:shadow-[0_0_0_3px_rgba(0,212,170,0.15)] disabled:opacity-50"
                   />
                   <p className="text-[var(--text-muted)] text-xs mt-2">
-                    You can provide URLs to documents, websites, or any online content
+                    Web pages, PDFs and images up to 10MB are downloaded and read just like uploaded files
                   </p>
                 </div>
-                <div className="flex gap-3">
+                <div className="flex gap-3 mb-4">
                   <button
                     onClick={handleUrlSubmit}
-                    disabled={!urlInput.trim()}
-                    className="feature-button flex-1 p-[12px_24px] bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white border-none rounded-[10px] font-semibold cursor-pointer transition-all duration-200 hover:transform hover:-translate-y-[2px] hover:shadow-[0_8px_20px_rgba(0,212,170,0.3)] disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={!urlInput.trim() || isFetchingUrl || isProcessing}
+                    className="feature-button flex-1 p-[12px_24px] bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white border-none rounded-[10px] font-semibold cursor-pointer transition-all duration-200 hover:transform hover:-translate-y-[2px] hover:shadow-[0_8px_20px_rgba(0,212,170,0.3)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                   >
-                    <Link className="w-4 h-4 mr-2 inline" />
-                    Process URL
-                  </button>
-                  <button
-                    type="button"
-                    onClick={onClose}
-                    className="p-[12px_24px] bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-[10px] text-[var(--text-secondary)] cursor-pointer transition-all duration-200 hover:bg-[rgba(255,255,255,0.15)] hover:text-[var(--text-primary)]"
-                  >
-                    Cancel
+                    {isFetchingUrl ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        Downloading...
+                      </>
+                    ) : (
+                      <>
+                        <Link className="w-4 h-4" />
+                        {uploadItems.length > 0 ? 'Add URL' : 'Process URL'}
+                      </>
+                    )}
                   </button>
+                  {uploadItems.length === 0 && (
+                    <button
+                      type="button"
+                      onClick={handleClose}
+                      className="p-[12px_24px] bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-[10px] text-[var(--text-secondary)] cursor-pointer transition-all duration-200 hover:bg-[rgba(255,255,255,0.15)] hover:text-[var(--text-primary)]"
+                    >
+                      Cancel
+                    </button>
+                  )}
                 </div>
               </>
             )}
+
+            {/* Analyze Actions */}
+            {uploadItems.length > 0 && !isProcessing && (
+              <div className="flex gap-3">
+                <button
+                  onClick={handleProcessFile}
+                  disabled={isSaving || !extractedText}
+                  className="feature-button flex-1 p-[12px_24px] bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white border-none rounded-[10px] font-semibold cursor-pointer transition-all duration-200 hover:transform hover:-translate-y-[2px] hover:shadow-[0_8px_20px_rgba(0,212,170,0.3)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {isSaving ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="w-4 h-4" />
+                      {extractedPages.length > 1 ? 'Analyze Combined Document' : 'Analyze Extracted Text'}
+                    </>
+                  )}
+                </button>
+                <button
+                  onClick={resetUploadState}
+                  disabled={isSaving}
+                  className="p-[12px_24px] bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-[10px] text-[var(--text-secondary)] cursor-pointer transition-all duration-200 hover:bg-[rgba(255,255,255,0.15)] hover:text-[var(--text-primary)] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Clear All
+                </button>
+              </div>
+            )}
           </>
         );
 
@@ -452,7 +825,7 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
               </button>
               <button
                 type="button"
-                onClick={onClose}
+                onClick={handleClose}
                 className="p-[12px_24px] bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-[10px] text-[var(--text-secondary)] cursor-pointer transition-all duration-200 hover:bg-[rgba(255,255,255,0.15)] hover:text-[var(--text-primary)]"
               >
                 Cancel
@@ -484,7 +857,7 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
               </button>
               <button
                 type="button"
-                onClick={onClose}
+                onClick={handleClose}
                 className="p-[12px_24px] bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-[10px] text-[var(--text-secondary)] cursor-pointer transition-all duration-200 hover:bg-[rgba(255,255,255,0.15)] hover:text-[var(--text-primary)]"
               >
                 Cancel
@@ -506,7 +879,7 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, type, onSubmit, u
             {title}
           </h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="close-btn bg-none border-none text-[var(--text-muted)] text-2xl cursor-pointer p-1 hover:text-[var(--text-primary)]"
           >
             <X className="w-6 h-6" />
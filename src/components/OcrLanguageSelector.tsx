@@ -0,0 +1,62 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { OCR_LANGUAGES, DEFAULT_OCR_LANGUAGE } from '../lib/ocrService';
+
+interface OcrLanguageSelectorProps {
+  languages: string[];
+  autoDetect: boolean;
+  onChange: (languages: string[], autoDetect: boolean) => void;
+  disabled?: boolean;
+}
+
+const OcrLanguageSelector: React.FC<OcrLanguageSelectorProps> = ({ languages, autoDetect, onChange, disabled }) => {
+  const toggleLanguage = (code: string) => {
+    const next = languages.includes(code)
+      ? languages.filter(language => language !== code)
+      : [...languages, code];
+    onChange(next.length > 0 ? next : [DEFAULT_OCR_LANGUAGE], false);
+  };
+
+  return (
+    <div className="ocr-language-selector mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[var(--text-primary)] text-sm font-medium flex items-center gap-2">
+          <Languages className="w-4 h-4 text-[var(--primary-cyan)]" />
+          Document language
+        </span>
+        <label className={`flex items-center gap-2 text-xs text-[var(--text-secondary)] ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+          <input
+            type="checkbox"
+            checked={autoDetect}
+            disabled={disabled}
+            onChange={(e) => onChange(languages, e.target.checked)}
+            className="accent-[var(--primary-cyan)]"
+          />
+          Auto-detect script
+        </label>
+      </div>
+      <div className={`flex flex-wrap gap-2 ${autoDetect ? 'opacity-50' : ''}`}>
+        {OCR_LANGUAGES.map(language => {
+          const selected = !autoDetect && languages.includes(language.code);
+          return (
+            <button
+              key={language.code}
+              type="button"
+              disabled={disabled || autoDetect}
+              onClick={() => toggleLanguage(language.code)}
+              className={`px-3 py-1 rounded-full text-xs border transition-all duration-200 disabled:cursor-not-allowed ${
+                selected
+                  ? 'bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white border-transparent'
+                  : 'bg-[rgba(255,255,255,0.05)] border-[var(--glass-border)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+              }`}
+            >
+              {language.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OcrLanguageSelector;
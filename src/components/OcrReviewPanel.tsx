@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import { ExtractedPage } from '../lib/documentText';
+
+export interface ReviewPage {
+  id: string;
+  label: string;
+  page: ExtractedPage;
+}
+
+interface OcrReviewPanelProps {
+  pages: ReviewPage[];
+  onCorrectWord: (pageId: string, wordIndex: number, corrected: string | undefined) => void;
+}
+
+// Words Tesseract is less sure about than this are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+const OcrReviewPanel: React.FC<OcrReviewPanelProps> = ({ pages, onCorrectWord }) => {
+  const [activePageId, setActivePageId] = useState(pages[0]?.id);
+  const [selectedWord, setSelectedWord] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const active = pages.find(entry => entry.id === activePageId) || pages[0];
+  if (!active || !active.page.image || !active.page.words) return null;
+
+  const { image, words } = active.page;
+  const lowConfidenceCount = words.filter(word => word.corrected === undefined && word.confidence < LOW_CONFIDENCE_THRESHOLD).length;
+  const word = selectedWord !== null ? words[selectedWord] : null;
+
+  const selectWord = (index: number) => {
+    setSelectedWord(index);
+    setDraft(words[index].corrected ?? words[index].text);
+  };
+
+  const saveCorrection = () => {
+    if (selectedWord === null || !word) return;
+    onCorrectWord(active.id, selectedWord, draft.trim() === word.text ? undefined : draft.trim());
+    setSelectedWord(null);
+  };
+
+  return (
+    <div className="ocr-review-panel bg-[rgba(255,255,255,0.05)] border border-[var(--glass-border)] rounded-xl p-3 mb-4">
+      {pages.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {pages.map(entry => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => {
+                setActivePageId(entry.id);
+                setSelectedWord(null);
+              }}
+              className={`px-2 py-1 rounded-lg text-xs ${
+                entry.id === active.id
+                  ? 'bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white'
+                  : 'bg-[rgba(255,255,255,0.05)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-[var(--text-muted)] mb-2">
+        {lowConfidenceCount > 0
+          ? `${lowConfidenceCount} uncertain ${lowConfidenceCount === 1 ? 'word' : 'words'} highlighted. Click any word to correct it.`
+          : 'Click any word to correct it.'}
+      </p>
+
+      <div className="max-h-72 overflow-auto rounded-lg bg-white">
+        <div className="relative">
+          <img src={image.url} alt={active.label} className="w-full block" />
+          {words.map((ocrWord, index) => {
+            const corrected = ocrWord.corrected !== undefined;
+            const uncertain = !corrected && ocrWord.confidence < LOW_CONFIDENCE_THRESHOLD;
+            return (
+              <button
+                key={index}
+                type="button"
+                title={`${ocrWord.corrected ?? ocrWord.text} (${ocrWord.confidence}% confidence)`}
+                onClick={() => selectWord(index)}
+                className={`absolute border rounded-sm transition-colors duration-150 ${
+                  index === selectedWord
+                    ? 'border-[var(--primary-purple)] bg-[rgba(139,92,246,0.3)]'
+                    : corrected
+                      ? 'border-[var(--primary-cyan)] bg-[rgba(0,212,170,0.25)]'
+                      : uncertain
+                        ? 'border-[#f59e0b] bg-[rgba(245,158,11,0.3)]'
+                        : 'border-transparent hover:border-[var(--primary-cyan)] hover:bg-[rgba(0,212,170,0.1)]'
+                }`}
+                style={{
+                  left: `${(ocrWord.bbox.x0 / image.width) * 100}%`,
+                  top: `${(ocrWord.bbox.y0 / image.height) * 100}%`,
+                  width: `${((ocrWord.bbox.x1 - ocrWord.bbox.x0) / image.width) * 100}%`,
+                  height: `${((ocrWord.bbox.y1 - ocrWord.bbox.y0) / image.height) * 100}%`
+                }}
+              />
+            );
+          })}
+        </div>
+      </div>
+
+      {word && (
+        <div className="mt-3 flex items-center gap-2">
+          <span className="text-xs text-[var(--text-muted)] whitespace-nowrap">
+            "{word.text}" • {word.confidence}%
+          </span>
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                saveCorrection();
+              }
+            }}
+            autoFocus
+            className="flex-1 min-w-0 p-2 bg-[rgba(255,255,255,0.08)] border border-[var(--glass-border)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--primary-cyan)]"
+          />
+          <button
+            type="button"
+            onClick={saveCorrection}
+            title="Save correction"
+            className="p-2 bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] text-white rounded-lg"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          {word.corrected !== undefined && (
+            <button
+              type="button"
+              onClick={() => {
+                onCorrectWord(active.id, selectedWord as number, undefined);
+                setSelectedWord(null);
+              }}
+              title="Revert to recognized text"
+              className="p-2 bg-[rgba(255,255,255,0.1)] border border-[var(--glass-border)] rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OcrReviewPanel;
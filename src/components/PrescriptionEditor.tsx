@@ -0,0 +1,129 @@
+import React from 'react';
+import { Plus, Trash2, RotateCcw, ClipboardList } from 'lucide-react';
+import {
+  Prescription,
+  PrescriptionMedicine,
+  MEDICINE_FIELDS,
+  createEmptyMedicine
+} from '../lib/prescriptionParser';
+
+interface PrescriptionEditorProps {
+  prescription: Prescription;
+  onChange: (prescription: Prescription) => void;
+  // Shown when the user has edited the parsed result, to go back to what was read from the text
+  onReset?: () => void;
+  disabled?: boolean;
+}
+
+const HEADER_FIELDS: { key: 'prescriber' | 'date' | 'patient'; label: string }[] = [
+  { key: 'prescriber', label: 'Prescriber' },
+  { key: 'date', label: 'Date' },
+  { key: 'patient', label: 'Patient' },
+];
+
+const inputClassName = 'w-full min-w-0 p-1.5 bg-[rgba(255,255,255,0.08)] border border-[var(--glass-border)] rounded-md text-xs text-[var(--text-primary)] focus:outline-none focus:border-[var(--primary-cyan)] disabled:opacity-50';
+
+const PrescriptionEditor: React.FC<PrescriptionEditorProps> = ({ prescription, onChange, onReset, disabled }) => {
+  const updateMedicine = (index: number, key: keyof PrescriptionMedicine, value: string) => {
+    onChange({
+      ...prescription,
+      medicines: prescription.medicines.map((medicine, i) => (i === index ? { ...medicine, [key]: value } : medicine))
+    });
+  };
+
+  return (
+    <div className="prescription-editor bg-[rgba(255,255,255,0.05)] border border-[var(--glass-border)] rounded-xl p-3 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[var(--text-primary)] text-sm font-medium flex items-center gap-2">
+          <ClipboardList className="w-4 h-4 text-[var(--primary-cyan)]" />
+          Prescription details
+        </span>
+        {onReset && (
+          <button
+            type="button"
+            onClick={onReset}
+            disabled={disabled}
+            className="text-xs text-[var(--primary-cyan)] hover:underline flex items-center gap-1 disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Re-read from text
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {HEADER_FIELDS.map(field => (
+          <label key={field.key} className="text-xs text-[var(--text-muted)]">
+            {field.label}
+            <input
+              type="text"
+              value={prescription[field.key]}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...prescription, [field.key]: e.target.value })}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+        ))}
+      </div>
+
+      {prescription.medicines.length > 0 ? (
+        <div className="max-h-56 overflow-auto">
+          <table className="w-full text-xs border-separate border-spacing-1">
+            <thead>
+              <tr>
+                {MEDICINE_FIELDS.map(field => (
+                  <th key={field.key} className="text-left font-medium text-[var(--text-muted)] whitespace-nowrap">
+                    {field.label}
+                  </th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {prescription.medicines.map((medicine, index) => (
+                <tr key={index}>
+                  {MEDICINE_FIELDS.map(field => (
+                    <td key={field.key} className={field.key === 'name' || field.key === 'instructions' ? 'min-w-[120px]' : 'min-w-[80px]'}>
+                      <input
+                        type="text"
+                        value={medicine[field.key]}
+                        disabled={disabled}
+                        onChange={(e) => updateMedicine(index, field.key, e.target.value)}
+                        className={inputClassName}
+                      />
+                    </td>
+                  ))}
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => onChange({ ...prescription, medicines: prescription.medicines.filter((_, i) => i !== index) })}
+                      disabled={disabled}
+                      title="Remove medicine"
+                      className="p-1 rounded text-[var(--text-muted)] hover:text-[#ef4444] hover:bg-[rgba(239,68,68,0.1)] disabled:opacity-30"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-xs text-[var(--text-muted)] italic">No medicines recognized. Add them below if needed.</p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => onChange({ ...prescription, medicines: [...prescription.medicines, createEmptyMedicine()] })}
+        disabled={disabled}
+        className="mt-2 text-xs text-[var(--primary-cyan)] hover:underline flex items-center gap-1 disabled:opacity-50"
+      >
+        <Plus className="w-3 h-3" />
+        Add medicine
+      </button>
+    </div>
+  );
+};
+
+export default PrescriptionEditor;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { PiiFinding, PII_CATEGORY_LABELS } from '../lib/piiRedaction';
+
+interface RedactionReviewPanelProps {
+  findings: PiiFinding[];
+  // Keys of findings the user chose to send as they are
+  excludedKeys: string[];
+  onChange: (excludedKeys: string[]) => void;
+  disabled?: boolean;
+}
+
+// Personal details found in the text, each swapped for a placeholder before analysis unless unticked
+const RedactionReviewPanel: React.FC<RedactionReviewPanelProps> = ({ findings, excludedKeys, onChange, disabled }) => {
+  const hiddenCount = findings.filter(finding => !excludedKeys.includes(finding.key)).length;
+
+  const toggle = (key: string) => {
+    onChange(excludedKeys.includes(key) ? excludedKeys.filter(item => item !== key) : [...excludedKeys, key]);
+  };
+
+  return (
+    <div className="redaction-review-panel bg-[rgba(255,255,255,0.05)] border border-[var(--glass-border)] rounded-xl p-3 mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-[var(--text-primary)] text-sm font-semibold flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-[var(--primary-cyan)]" />
+          Personal details
+        </h4>
+        <button
+          type="button"
+          onClick={() => onChange(hiddenCount > 0 ? findings.map(finding => finding.key) : [])}
+          disabled={disabled}
+          className="text-xs text-[var(--primary-cyan)] hover:underline disabled:opacity-50"
+        >
+          {hiddenCount > 0 ? 'Send all as-is' : 'Hide all'}
+        </button>
+      </div>
+      <p className="text-xs text-[var(--text-muted)] mb-2">
+        Ticked details are replaced with placeholders before the text is sent for analysis and put back in the reply.
+      </p>
+
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {findings.map(finding => {
+          const hidden = !excludedKeys.includes(finding.key);
+          return (
+            <label
+              key={finding.key}
+              className={`flex items-center gap-2 text-xs ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+            >
+              <input
+                type="checkbox"
+                checked={hidden}
+                disabled={disabled}
+                onChange={() => toggle(finding.key)}
+                className="accent-[var(--primary-cyan)]"
+              />
+              <span className="text-[var(--text-muted)] w-24 flex-shrink-0">{PII_CATEGORY_LABELS[finding.category]}</span>
+              <span className={`truncate ${hidden ? 'line-through text-[var(--text-muted)]' : 'text-[var(--text-primary)]'}`}>
+                {finding.value}
+              </span>
+              {hidden && (
+                <span className="ml-auto flex-shrink-0 px-1.5 rounded bg-[rgba(0,212,170,0.15)] text-[var(--primary-cyan)] font-mono">
+                  {finding.placeholder}
+                </span>
+              )}
+              {finding.count > 1 && <span className="text-[var(--text-muted)] flex-shrink-0">×{finding.count}</span>}
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RedactionReviewPanel;
@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, FileX } from 'lucide-react';
+import { getDocumentFileUrls } from '../lib/supabase';
+
+interface StoredFileThumbnailsProps {
+  paths: string[];
+  className?: string;
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|bmp|webp)$/i;
+
+// Stored names look like "<user id>/<batch>-<index>-<original name>"
+const displayName = (path: string) => path.split('/').pop()?.replace(/^\d+-\d+-/, '') || path;
+
+// Thumbnails for originals kept in Storage; each opens the file through a signed URL
+const StoredFileThumbnails: React.FC<StoredFileThumbnailsProps> = ({ paths, className = '' }) => {
+  const [urls, setUrls] = useState<Record<string, string> | null>(null);
+  const pathKey = paths.join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    getDocumentFileUrls(pathKey.split('|').filter(Boolean)).then(result => {
+      if (!cancelled) setUrls(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pathKey]);
+
+  if (paths.length === 0) return null;
+
+  return (
+    <div className={`stored-file-thumbnails flex flex-wrap gap-2 ${className}`}>
+      {paths.map(path => {
+        const url = urls?.[path];
+        const name = displayName(path);
+
+        if (!url) {
+          return (
+            <div
+              key={path}
+              title={urls ? `${name} is no longer available` : name}
+              className={`w-16 h-16 rounded-lg border border-[var(--glass-border)] bg-[rgba(255,255,255,0.05)] flex items-center justify-center ${
+                urls ? '' : 'animate-pulse'
+              }`}
+            >
+              {urls && <FileX className="w-5 h-5 text-[var(--text-muted)]" />}
+            </div>
+          );
+        }
+
+        return (
+          <a
+            key={path}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={`Open original: ${name}`}
+            className="w-16 h-16 rounded-lg border border-[var(--glass-border)] bg-[rgba(255,255,255,0.05)] overflow-hidden flex flex-col items-center justify-center hover:border-[var(--primary-cyan)] transition-colors duration-200"
+          >
+            {IMAGE_EXTENSIONS.test(path) ? (
+              <img src={url} alt={name} className="w-full h-full object-cover" />
+            ) : (
+              <>
+                <FileText className="w-5 h-5 text-[var(--primary-cyan)]" />
+                <span className="text-[10px] text-[var(--text-muted)] uppercase mt-1">
+                  {name.split('.').pop()}
+                </span>
+              </>
+            )}
+          </a>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StoredFileThumbnails;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, Trash2, FileText, Image, AlertCircle, CheckCircle } from 'lucide-react';
+import { ExtractedPage } from '../lib/documentText';
+import { PreprocessingReport, ImageResizeInfo } from '../lib/imagePreprocessing';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  status: 'pending' | 'processing' | 'done' | 'error';
+  progress: number;
+  pages: ExtractedPage[];
+  error?: string;
+  previewUrl?: string;
+  processedPreviewUrl?: string;
+  preprocessing?: PreprocessingReport;
+  // Set when an oversized photo was shrunk before OCR
+  resize?: ImageResizeInfo;
+  // The photo as picked, before it was shrunk; this is the copy that gets stored
+  originalFile?: File;
+}
+
+interface UploadFileListProps {
+  items: UploadItem[];
+  onMove: (id: string, direction: -1 | 1) => void;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const UploadFileList: React.FC<UploadFileListProps> = ({ items, onMove, onRemove, disabled }) => {
+  const getStatusText = (item: UploadItem) => {
+    switch (item.status) {
+      case 'pending':
+        return 'Waiting...';
+      case 'processing':
+        return `Processing... ${Math.round(item.progress * 100)}%`;
+      case 'done':
+        return item.pages.length > 1 ? `${item.pages.length} pages extracted` : 'Text extracted';
+      case 'error':
+        return item.error || 'Failed to process file';
+      default:
+        return '';
+    }
+  };
+
+  return (
+    <div className="upload-file-list space-y-2 mb-4 max-h-60 overflow-y-auto">
+      {items.map((item, index) => (
+        <div
+          key={item.id}
+          className={`upload-file-item bg-[rgba(255,255,255,0.05)] border rounded-xl p-3 ${
+            item.status === 'error' ? 'border-[rgba(239,68,68,0.3)]' : 'border-[var(--glass-border)]'
+          }`}
+        >
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-semibold text-[var(--text-muted)] w-5 text-center">
+              {index + 1}
+            </span>
+            {item.file.type.startsWith('image/') ? (
+              <Image className="w-5 h-5 text-[var(--primary-cyan)] flex-shrink-0" />
+            ) : (
+              <FileText className="w-5 h-5 text-[var(--primary-cyan)] flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-[var(--text-primary)] truncate">{item.file.name}</p>
+              <p className={`text-xs flex items-center gap-1 ${
+                item.status === 'error' ? 'text-[#ef4444]' : 'text-[var(--text-muted)]'
+              }`}>
+                {item.status === 'done' && <CheckCircle className="w-3 h-3 text-[var(--primary-cyan)]" />}
+                {item.status === 'error' && <AlertCircle className="w-3 h-3" />}
+                <span className="truncate">{formatFileSize(item.file.size)} • {getStatusText(item)}</span>
+              </p>
+              {item.resize && (
+                <p className="text-xs text-[var(--text-muted)] truncate">
+                  Resized {item.resize.originalWidth}×{item.resize.originalHeight} ({formatFileSize(item.resize.originalSize)})
+                  {' → '}{item.resize.width}×{item.resize.height}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => onMove(item.id, -1)}
+                disabled={disabled || index === 0}
+                title="Move up"
+                className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[rgba(255,255,255,0.1)] disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(item.id, 1)}
+                disabled={disabled || index === items.length - 1}
+                title="Move down"
+                className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[rgba(255,255,255,0.1)] disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(item.id)}
+                disabled={disabled}
+                title="Remove"
+                className="p-1 rounded text-[var(--text-muted)] hover:text-[#ef4444] hover:bg-[rgba(239,68,68,0.1)] disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {item.status === 'processing' && (
+            <div className="mt-2 h-1 bg-[rgba(255,255,255,0.1)] rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-[var(--primary-cyan)] to-[var(--primary-purple)] transition-all duration-300"
+                style={{ width: `${Math.round(item.progress * 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default UploadFileList;
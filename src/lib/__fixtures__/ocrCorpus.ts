@@ -0,0 +1,126 @@
+// Tesseract output from photographed and scanned prescriptions, with the text the normalizer should produce.
+// Names and registration numbers have been changed.
+export interface OcrSample {
+  name: string;
+  raw: string;
+  expected: string;
+}
+
+export const OCR_CORPUS: OcrSample[] = [
+  {
+    name: 'syrup strength per volume',
+    raw: 'Syp. Paracetamol 250mg/5ml  5 ml TDS x 3 days',
+    expected: 'Syp. Paracetamol 250mg/5mL 5 mL TDS x 3 days',
+  },
+  {
+    name: 'strength with zeros and unit misread',
+    raw: 'Tab. Metformin 5OOrng  1-0-1 after food',
+    expected: 'Tab. Metformin 500mg 1-0-1 after food',
+  },
+  {
+    name: 'spaced rng',
+    raw: 'Tab. Ecosprin 75 rng OD',
+    expected: 'Tab. Ecosprin 75 mg OD',
+  },
+  {
+    name: 'half tablet',
+    raw: 'Tab Dolo 65O mg 1/2 tab SOS',
+    expected: 'Tab Dolo 650 mg 1/2 tab SOS',
+  },
+  {
+    name: 'percentage with a space',
+    raw: 'Betamethasone cream 0.1 % apply BD',
+    expected: 'Betamethasone cream 0.1% apply BD',
+  },
+  {
+    name: 'percentage read with letter O',
+    raw: 'Clobetasol O.O5% oint',
+    expected: 'Clobetasol 0.05% oint',
+  },
+  {
+    name: 'leading l read for 1',
+    raw: 'Amoxicillin l25 mg/5 mL',
+    expected: 'Amoxicillin 125 mg/5 mL',
+  },
+  {
+    name: 'rncg for mcg',
+    raw: 'Tab. Thyronorm 5O rncg empty stomach',
+    expected: 'Tab. Thyronorm 50 mcg empty stomach',
+  },
+  {
+    name: 'thousands separator stays a comma',
+    raw: 'Vitamin D3 6O,OOO IU weekly',
+    expected: 'Vitamin D3 60,000 IU weekly',
+  },
+  {
+    name: 'upper-case plural millilitres',
+    raw: 'Ondansetron syrup 2 MLS  SOS',
+    expected: 'Ondansetron syrup 2 mL SOS',
+  },
+  {
+    name: 'plural mgs',
+    raw: 'Cap. Omeprazole 2O mgs AC',
+    expected: 'Cap. Omeprazole 20 mg AC',
+  },
+  {
+    name: 'oil beside a misread dose',
+    raw: 'Cod Liver Oil 1O ml daily',
+    expected: 'Cod Liver Oil 10 mL daily',
+  },
+  {
+    name: 'decimal comma',
+    raw: 'Iron drops 0,5 ml OD',
+    expected: 'Iron drops 0.5 mL OD',
+  },
+  {
+    name: 'gm to g',
+    raw: 'Ceftriaxone 1 gm IV BD',
+    expected: 'Ceftriaxone 1 g IV BD',
+  },
+  {
+    name: 'rnEq for mEq',
+    raw: 'Potassium chloride 2O rnEq',
+    expected: 'Potassium chloride 20 mEq',
+  },
+  {
+    name: 'typographic punctuation and multiplication sign',
+    raw: 'Rx — Tab. Azithral 5OO mg “OD” × 3 days',
+    expected: 'Rx - Tab. Azithral 500 mg "OD" × 3 days',
+  },
+  {
+    name: 'column rule and stray symbol',
+    raw: 'Dr. Mehta | Reg No. 48213 ©',
+    expected: 'Dr. Mehta Reg No. 48213',
+  },
+  {
+    name: 'micrograms written with mu',
+    raw: 'Salbutamol inh 1OO μg 2 puffs',
+    expected: 'Salbutamol inh 100 mcg 2 puffs',
+  },
+  {
+    name: 'w/w strength',
+    raw: 'Oint. Mupirocin 2% w/w',
+    expected: 'Oint. Mupirocin 2% w/w',
+  },
+  {
+    name: 'whole prescription',
+    raw: [
+      'CITY CLINIC   ',
+      '',
+      'Pt: Mr. Arjun   Age: 45 yrs',
+      'Rx',
+      '1) Tab. Pantocid 4O rng  1-0-0  AC',
+      '2) Syp. Cremaffin 1O rnl HS',
+      '   ',
+      '3) Olive Oil for massage',
+    ].join('\n'),
+    expected: [
+      'CITY CLINIC',
+      'Pt: Mr. Arjun Age: 45 yrs',
+      'Rx',
+      '1) Tab. Pantocid 40 mg 1-0-0 AC',
+      '2) Syp. Cremaffin 10 mL HS',
+      '3) Olive Oil for massage',
+    ].join('\n'),
+  },
+];
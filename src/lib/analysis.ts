@@ -0,0 +1,92 @@
+import type { ProcessedDocument, OcrCorrection } from './documentText';
+import type { Prescription, PrescriptionMedicine } from './prescriptionParser';
+import { RedactionMap, redactText, restoreRedactions } from './piiRedaction';
+import { getChatBackend } from './chatBackend';
+import { ChatTurn, getHistoryTokenBudget, trimHistory } from './chatHistory';
+import { getRetryOptions, sendWithRetry } from './chatRetry';
+import { ChatResponse, InvalidChatResponseError, mapResponseText } from './chatResponse';
+
+// Shared entry point for analysis, used by the chatbot and when re-running a saved document
+export interface AnalysisRequest {
+  message: string;
+  attachment?: string;
+  sessionId?: string | null;
+  document?: ProcessedDocument;
+  // Session type the chat was started from
+  context?: string;
+  // Earlier turns of the chat, oldest first; trimmed here to the configured token budget
+  history?: ChatTurn[];
+  // Text of the document the chat is about, if any
+  documentText?: string;
+  // Identifiers replaced with placeholders before sending and restored in the reply
+  redactions?: RedactionMap;
+  // Receives the reply so far while it streams in
+  onText?: (text: string) => void;
+  // Called before a transient failure is retried; text streamed by the failed attempt is discarded
+  onRetry?: (retry: number) => void;
+  signal?: AbortSignal;
+}
+
+const redactPrescription = (prescription: Prescription, redactions: RedactionMap): Prescription => ({
+  prescriber: redactText(prescription.prescriber, redactions),
+  date: redactText(prescription.date, redactions),
+  patient: redactText(prescription.patient, redactions),
+  medicines: prescription.medicines.map(medicine => {
+    const redacted = { ...medicine };
+    (Object.keys(redacted) as (keyof PrescriptionMedicine)[]).forEach(field => {
+      redacted[field] = redactText(redacted[field], redactions);
+    });
+    return redacted;
+  })
+});
+
+const redactCorrections = (corrections: OcrCorrection[], redactions: RedactionMap): OcrCorrection[] =>
+  corrections.map(correction => ({
+    ...correction,
+    original: redactText(correction.original, redactions),
+    corrected: redactText(correction.corrected, redactions)
+  }));
+
+// Redacts personal details, sends through the configured chat backend with retries and restores them in the reply
+export const requestAnalysis = async ({
+  message,
+  attachment,
+  sessionId,
+  document,
+  context = 'question',
+  history = [],
+  documentText,
+  redactions = {},
+  onText,
+  onRetry,
+  signal
+}: AnalysisRequest): Promise<ChatResponse> => {
+  const backend = getChatBackend();
+
+  try {
+    const reply = await sendWithRetry(backend, {
+      message: redactText(message, redactions),
+      attachment: attachment || 'text',
+      sessionId: sessionId || null,
+      context,
+      history: trimHistory(
+        history.map(turn => ({ ...turn, content: redactText(turn.content, redactions) })),
+        getHistoryTokenBudget()
+      ),
+      documentText: documentText ? redactText(documentText, redactions) : undefined,
+      corrections: document ? redactCorrections(document.corrections, redactions) : undefined,
+      prescription: document?.prescription ? redactPrescription(document.prescription, redactions) : null
+    }, {
+      onText: onText && (text => onText(restoreRedactions(text, redactions))),
+      signal
+    }, { ...getRetryOptions(), onRetry });
+    return mapResponseText(reply, text => restoreRedactions(text, redactions));
+  } catch (error) {
+    // Stopping is not a failure; let the caller keep what has streamed so far
+    if (signal?.aborted) throw error;
+    console.error(`💥 Error calling ${backend.name} chat backend:`, error);
+    // Callers show a dedicated message for replies that break the response contract
+    if (error instanceof InvalidChatResponseError) throw error;
+    throw new Error(`AI service error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+  }
+};
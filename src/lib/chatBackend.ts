@@ -0,0 +1,55 @@
+import type { OcrCorrection } from './documentText';
+import type { Prescription } from './prescriptionParser';
+import type { ChatTurn } from './chatHistory';
+import type { ChatResponse } from './chatResponse';
+import { n8nBackend } from './n8nBackend';
+import { openAiBackend } from './openAiBackend';
+import { mockBackend } from './mockBackend';
+
+// What every backend receives; personal details have already been replaced with placeholders
+export interface ChatBackendRequest {
+  message: string;
+  attachment: string;
+  sessionId: string | null;
+  // Session type: "upload", "medicine-search" or "question"
+  context: string;
+  // Earlier turns, oldest first, already trimmed to the history token budget
+  history: ChatTurn[];
+  // Text of the document being discussed, sent with every turn rather than only the one that attached it
+  documentText?: string;
+  corrections?: OcrCorrection[];
+  prescription?: Prescription | null;
+}
+
+export interface ChatSendOptions {
+  // Called with the whole reply so far each time more of a streamed reply arrives
+  onText?: (text: string) => void;
+  // Aborting stops generation; the send rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface ChatBackend {
+  name: string;
+  // Rejects with InvalidChatResponseError when the reply doesn't match the response contract
+  send: (request: ChatBackendRequest, options?: ChatSendOptions) => Promise<ChatResponse>;
+}
+
+const CHAT_BACKENDS: Record<string, ChatBackend> = {
+  n8n: n8nBackend,
+  openai: openAiBackend,
+  mock: mockBackend,
+};
+
+export const DEFAULT_CHAT_BACKEND = 'n8n';
+
+// Picked with VITE_CHAT_BACKEND: "n8n" (default), "openai" for any OpenAI-compatible server, or "mock"
+export const getChatBackend = (): ChatBackend => {
+  const configured = (import.meta.env.VITE_CHAT_BACKEND || DEFAULT_CHAT_BACKEND).trim().toLowerCase();
+  const backend = CHAT_BACKENDS[configured];
+
+  if (!backend) {
+    console.warn(`Unknown VITE_CHAT_BACKEND "${configured}", using ${DEFAULT_CHAT_BACKEND}. Options: ${Object.keys(CHAT_BACKENDS).join(', ')}`);
+    return CHAT_BACKENDS[DEFAULT_CHAT_BACKEND];
+  }
+  return backend;
+};
@@ -0,0 +1,51 @@
+import { ChatResponse, responseToText } from './chatResponse';
+import type { ChatMessageStatus } from './supabase';
+
+export interface ExportedMessage {
+  type: 'user' | 'bot';
+  content: string;
+  timestamp: Date;
+  status?: ChatMessageStatus;
+  response?: ChatResponse;
+}
+
+// A conversation as a markdown file, with each answer's sources listed under it
+export const chatToMarkdown = (title: string, messages: ExportedMessage[]): string => {
+  const lines = [`# ${title}`, '', `Exported ${new Date().toLocaleString()}`, ''];
+
+  messages.forEach((message, index) => {
+    const speaker = message.type === 'user' ? 'You' : 'MediLens AI';
+    lines.push(`## ${speaker} · ${message.timestamp.toLocaleString()}`, '');
+
+    const body = message.response ? responseToText(message.response) : message.content;
+    if (body) lines.push(body, '');
+
+    if (message.type !== 'bot') return;
+    if (message.status === 'error') {
+      lines.push('_This request failed._', '');
+    } else if (message.status === 'stopped') {
+      lines.push('_Stopped before the reply finished._', '');
+    }
+    const answersQuestion = messages.slice(0, index).some(earlier => earlier.type === 'user');
+    if (answersQuestion && message.status !== 'error' && body && !message.response?.citations.length) {
+      lines.push('_Unsourced: this answer did not cite any sources._', '');
+    }
+  });
+
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+export const downloadTextFile = (fileName: string, text: string, type = 'text/markdown') => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${type};charset=utf-8` }));
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// "Ibuprofen questions" -> "medilens-ibuprofen-questions-2025-09-22.md"
+export const exportFileName = (title: string, date = new Date()): string => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50);
+  return `medilens-${slug || 'chat'}-${date.toISOString().slice(0, 10)}.md`;
+};
@@ -0,0 +1,36 @@
+// One earlier message in the conversation, as sent to the chat backend
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 2000;
+
+// Rough count for budgeting only: about four characters per token for English text
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Set with VITE_CHAT_HISTORY_TOKENS; 0 sends no history at all
+export const getHistoryTokenBudget = (): number => {
+  const raw = import.meta.env.VITE_CHAT_HISTORY_TOKENS;
+  if (!raw?.trim()) return DEFAULT_HISTORY_TOKEN_BUDGET;
+
+  const configured = Number(raw);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_HISTORY_TOKEN_BUDGET;
+};
+
+// Keep the most recent turns that fit the budget, oldest first; a turn is never cut in half
+export const trimHistory = (turns: ChatTurn[], budget: number): ChatTurn[] => {
+  const kept: ChatTurn[] = [];
+  let used = 0;
+
+  for (let index = turns.length - 1; index >= 0; index--) {
+    const tokens = estimateTokens(turns[index].content);
+    if (used + tokens > budget) break;
+    used += tokens;
+    kept.unshift(turns[index]);
+  }
+
+  // A reply without the question it answers only confuses the model
+  while (kept.length > 0 && kept[0].role === 'assistant') kept.shift();
+  return kept;
+};
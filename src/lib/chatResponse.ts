@@ -0,0 +1,328 @@
+// Reply format shared by every chat backend and stored with each bot message.
+// Bump CHAT_RESPONSE_VERSION whenever a field changes meaning; older versions stay readable.
+// Version 2: citations gained publisher, identifier and retrieved_at, and need a url or identifier.
+export const CHAT_RESPONSE_VERSION = 2;
+
+export type WarningSeverity = 'info' | 'caution' | 'danger';
+
+export interface TextBlock {
+  type: 'text';
+  text: string;
+}
+
+// `uses` are the medicine's indications; every list is optional and empty sections are hidden
+export interface MedicineBlock {
+  type: 'medicine';
+  name: string;
+  generic_name?: string;
+  uses?: string[];
+  dosage?: string;
+  side_effects?: string[];
+  contraindications?: string[];
+  precautions?: string[];
+  interactions?: string[];
+  storage?: string[];
+}
+
+export type MedicineListField = 'uses' | 'side_effects' | 'contraindications' | 'precautions' | 'interactions' | 'storage';
+
+export interface WarningBlock {
+  type: 'warning';
+  text: string;
+  severity: WarningSeverity;
+}
+
+export type ChatResponseBlock = TextBlock | MedicineBlock | WarningBlock;
+
+export interface Citation {
+  title: string;
+  publisher?: string;
+  url?: string;
+  // DOI, PubMed ID, label set ID or similar, for sources without a link
+  identifier?: string;
+  // Date the source was consulted, as YYYY-MM-DD
+  retrieved_at?: string;
+}
+
+export interface ChatResponse {
+  version: number;
+  blocks: ChatResponseBlock[];
+  citations: Citation[];
+  follow_ups: string[];
+}
+
+// The reply didn't match the contract; problems name the offending fields
+export class InvalidChatResponseError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Unexpected response format: ${problems.slice(0, 3).join('; ')}${problems.length > 3 ? '...' : ''}`);
+    this.name = 'InvalidChatResponseError';
+    this.problems = problems;
+  }
+}
+
+const SEVERITIES: WarningSeverity[] = ['info', 'caution', 'danger'];
+const MEDICINE_LISTS: MedicineListField[] = ['uses', 'side_effects', 'contraindications', 'precautions', 'interactions', 'storage'];
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Plain text from a backend that doesn't send structured replies, e.g. a streamed answer
+export const textResponse = (text: string): ChatResponse => ({
+  version: CHAT_RESPONSE_VERSION,
+  blocks: [{ type: 'text', text }],
+  citations: [],
+  follow_ups: []
+});
+
+const checkBlock = (block: unknown, path: string, problems: string[]): ChatResponseBlock | null => {
+  if (!isObject(block)) {
+    problems.push(`${path} must be an object`);
+    return null;
+  }
+
+  switch (block.type) {
+    case 'text':
+      if (!isNonEmptyString(block.text)) {
+        problems.push(`${path}.text must be a non-empty string`);
+        return null;
+      }
+      return { type: 'text', text: block.text };
+
+    case 'warning':
+      if (!isNonEmptyString(block.text)) {
+        problems.push(`${path}.text must be a non-empty string`);
+        return null;
+      }
+      if (block.severity !== undefined && !SEVERITIES.includes(block.severity as WarningSeverity)) {
+        problems.push(`${path}.severity must be one of ${SEVERITIES.join(', ')}`);
+        return null;
+      }
+      return { type: 'warning', text: block.text, severity: (block.severity as WarningSeverity | undefined) ?? 'caution' };
+
+    case 'medicine': {
+      if (!isNonEmptyString(block.name)) {
+        problems.push(`${path}.name must be a non-empty string`);
+        return null;
+      }
+      const medicine: MedicineBlock = { type: 'medicine', name: block.name };
+      for (const field of ['generic_name', 'dosage'] as const) {
+        if (block[field] === undefined || block[field] === null) continue;
+        if (typeof block[field] !== 'string') {
+          problems.push(`${path}.${field} must be a string`);
+          return null;
+        }
+        medicine[field] = block[field];
+      }
+      for (const field of MEDICINE_LISTS) {
+        if (block[field] === undefined || block[field] === null) continue;
+        if (!isStringList(block[field])) {
+          problems.push(`${path}.${field} must be a list of strings`);
+          return null;
+        }
+        medicine[field] = block[field];
+      }
+      return medicine;
+    }
+
+    default:
+      problems.push(`${path}.type "${String(block.type)}" is not one of text, medicine, warning`);
+      return null;
+  }
+};
+
+const CITATION_FIELDS = ['publisher', 'url', 'identifier', 'retrieved_at', 'source'] as const;
+
+const checkCitation = (citation: unknown, path: string, version: number, problems: string[]): Citation | null => {
+  if (!isObject(citation) || !isNonEmptyString(citation.title)) {
+    problems.push(`${path}.title must be a non-empty string`);
+    return null;
+  }
+  for (const field of CITATION_FIELDS) {
+    if (citation[field] !== undefined && citation[field] !== null && typeof citation[field] !== 'string') {
+      problems.push(`${path}.${field} must be a string`);
+      return null;
+    }
+  }
+  // Links are rendered, so anything but a web address (e.g. javascript:) is refused
+  if (isNonEmptyString(citation.url) && !/^https?:\/\//i.test(citation.url)) {
+    problems.push(`${path}.url must start with http:// or https://`);
+    return null;
+  }
+  if (version >= 2 && !isNonEmptyString(citation.url) && !isNonEmptyString(citation.identifier)) {
+    problems.push(`${path} needs a url or an identifier`);
+    return null;
+  }
+  if (isNonEmptyString(citation.retrieved_at) && Number.isNaN(Date.parse(citation.retrieved_at))) {
+    problems.push(`${path}.retrieved_at must be a date such as 2025-09-21`);
+    return null;
+  }
+
+  // Version 1 called the publisher `source`
+  const publisher = version >= 2 ? citation.publisher : citation.source;
+  return {
+    title: citation.title,
+    ...(isNonEmptyString(publisher) && { publisher }),
+    ...(isNonEmptyString(citation.url) && { url: citation.url }),
+    ...(isNonEmptyString(citation.identifier) && { identifier: citation.identifier }),
+    ...(isNonEmptyString(citation.retrieved_at) && { retrieved_at: citation.retrieved_at })
+  };
+};
+
+// Plain-text and streamed replies have no version field, so they declare it in the content type,
+// e.g. "text/plain; response-version=2". Without it they are rejected like any other unknown format.
+export const assertTextResponseVersion = (contentType: string | null) => {
+  const declared = contentType?.match(/;\s*response-version="?(\d+)"?/i);
+  if (!declared) {
+    throw new InvalidChatResponseError(['a reply that is not JSON must declare response-version in its content type']);
+  }
+  const version = Number(declared[1]);
+  if (version < 1) {
+    throw new InvalidChatResponseError(['"response-version" must be a positive whole number']);
+  }
+  if (version > CHAT_RESPONSE_VERSION) {
+    throw new InvalidChatResponseError([`version ${version} is newer than this app supports (${CHAT_RESPONSE_VERSION})`]);
+  }
+};
+
+export const parseTextResponse = (text: string, contentType: string | null): ChatResponse => {
+  assertTextResponseVersion(contentType);
+  if (!text.trim()) {
+    throw new InvalidChatResponseError(['the reply was empty']);
+  }
+  return textResponse(text);
+};
+
+// Validate a reply against the contract. Two shapes are accepted:
+// - { version: 1 or 2, blocks, citations?, follow_ups? }
+// - { output: "..." } with no version, as returned by n8n's AI Agent node before the contract existed
+// A single-item array around either is unwrapped, since n8n's "Respond to Webhook" can send all items.
+export const parseChatResponse = (data: unknown): ChatResponse => {
+  const body = Array.isArray(data) && data.length === 1 ? data[0] : data;
+  if (!isObject(body)) {
+    throw new InvalidChatResponseError(['the reply must be a JSON object']);
+  }
+
+  if (body.version === undefined) {
+    if (isNonEmptyString(body.output)) return textResponse(body.output);
+    throw new InvalidChatResponseError(['"version" is missing']);
+  }
+  if (typeof body.version !== 'number' || !Number.isInteger(body.version) || body.version < 1) {
+    throw new InvalidChatResponseError(['"version" must be a positive whole number']);
+  }
+  if (body.version > CHAT_RESPONSE_VERSION) {
+    throw new InvalidChatResponseError([`version ${body.version} is newer than this app supports (${CHAT_RESPONSE_VERSION})`]);
+  }
+
+  const version = body.version;
+  const problems: string[] = [];
+  if (!Array.isArray(body.blocks) || body.blocks.length === 0) {
+    problems.push('"blocks" must be a non-empty list');
+  }
+  if (body.citations !== undefined && !Array.isArray(body.citations)) {
+    problems.push('"citations" must be a list');
+  }
+  if (body.follow_ups !== undefined && !isStringList(body.follow_ups)) {
+    problems.push('"follow_ups" must be a list of strings');
+  }
+  if (problems.length > 0) throw new InvalidChatResponseError(problems);
+
+  const blocks = (body.blocks as unknown[]).map((block, index) => checkBlock(block, `blocks[${index}]`, problems));
+  const citations = ((body.citations as unknown[] | undefined) ?? [])
+    .map((citation, index) => checkCitation(citation, `citations[${index}]`, version, problems));
+  if (problems.length > 0) throw new InvalidChatResponseError(problems);
+
+  return {
+    version,
+    blocks: blocks as ChatResponseBlock[],
+    citations: citations as Citation[],
+    follow_ups: ((body.follow_ups as string[] | undefined) ?? []).filter(isNonEmptyString)
+  };
+};
+
+// Apply a change to every piece of display text, e.g. to restore redacted personal details
+export const mapResponseText = (response: ChatResponse, map: (text: string) => string): ChatResponse => {
+  const mapList = (list?: string[]) => list?.map(map);
+
+  return {
+    ...response,
+    blocks: response.blocks.map(block => {
+      if (block.type !== 'medicine') return { ...block, text: map(block.text) };
+      const medicine: MedicineBlock = {
+        ...block,
+        name: map(block.name),
+        generic_name: block.generic_name && map(block.generic_name),
+        dosage: block.dosage && map(block.dosage)
+      };
+      MEDICINE_LISTS.forEach(field => {
+        medicine[field] = mapList(block[field]);
+      });
+      return medicine;
+    }),
+    citations: response.citations.map(citation => ({
+      ...citation,
+      title: map(citation.title),
+      publisher: citation.publisher && map(citation.publisher)
+    })),
+    follow_ups: response.follow_ups.map(map)
+  };
+};
+
+// Medicine card sections in display order; dosing comes from `dosage` and sits after the indications
+export const MEDICINE_SECTIONS: { field: MedicineListField; label: string }[] = [
+  { field: 'uses', label: 'Indications' },
+  { field: 'side_effects', label: 'Side effects' },
+  { field: 'contraindications', label: 'Contraindications' },
+  { field: 'precautions', label: 'Precautions' },
+  { field: 'interactions', label: 'Interactions' },
+  { field: 'storage', label: 'Storage' },
+];
+
+// One footnote line, e.g. "Paracetamol. NHS. https://www.nhs.uk/medicines/paracetamol/ (retrieved 2025-09-21)"
+export const formatCitation = (citation: Citation): string => {
+  const parts = [citation.title, citation.publisher, citation.url || citation.identifier].filter(Boolean);
+  return `${parts.join('. ')}${citation.retrieved_at ? ` (retrieved ${citation.retrieved_at})` : ''}`;
+};
+
+// Plain-text version kept in `content`, used for chat history, previews and saved analyses
+export const responseToText = (response: ChatResponse): string => {
+  const parts = response.blocks.map(block => {
+    if (block.type === 'text') return block.text;
+    if (block.type === 'warning') return `⚠️ ${block.text}`;
+
+    const lines = [block.generic_name ? `${block.name} (${block.generic_name})` : block.name];
+    if (block.dosage) lines.push(`Dosing: ${block.dosage}`);
+    MEDICINE_SECTIONS.forEach(({ field, label }) => {
+      const items = block[field];
+      if (items && items.length > 0) lines.push(`${label}: ${items.join('; ')}`);
+    });
+    return lines.join('\n');
+  });
+
+  if (response.citations.length > 0) {
+    parts.push(`Sources:\n${response.citations
+      .map((citation, index) => `[${index + 1}] ${formatCitation(citation)}`)
+      .join('\n')}`);
+  }
+
+  return parts.join('\n\n');
+};
+
+// Undo the Sources section responseToText adds, for rendering a saved plain-text reply with footnotes
+export const splitSources = (text: string): { body: string; sources: string[] } => {
+  const match = text.match(/\n\nSources:\n((?:\[\d+\] .*(?:\n|$))+)$/);
+  if (!match || match.index === undefined) return { body: text, sources: [] };
+  return {
+    body: text.slice(0, match.index),
+    sources: match[1].trim().split('\n').map(line => line.replace(/^\[\d+\] /, ''))
+  };
+};
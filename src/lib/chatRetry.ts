@@ -0,0 +1,110 @@
+import type { ChatBackend, ChatBackendRequest, ChatSendOptions } from './chatBackend';
+import type { ChatResponse } from './chatResponse';
+
+// A failed backend call; retryable for network errors, timeouts, 429 and 5xx responses
+export class ChatBackendError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'ChatBackendError';
+    this.retryable = retryable;
+  }
+}
+
+export const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+export interface RetryOptions {
+  // Give up on an attempt after this long without any reply text; 0 waits forever
+  timeoutMs: number;
+  maxRetries: number;
+  // Called before each retry with the 1-based retry number
+  onRetry?: (retry: number, error: Error) => void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60000;
+export const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 1000;
+
+const readNumber = (raw: string | undefined, fallback: number): number => {
+  if (!raw?.trim()) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Set with VITE_CHAT_TIMEOUT_MS and VITE_CHAT_MAX_RETRIES
+export const getRetryOptions = (): RetryOptions => ({
+  timeoutMs: readNumber(import.meta.env.VITE_CHAT_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+  maxRetries: readNumber(import.meta.env.VITE_CHAT_MAX_RETRIES, DEFAULT_MAX_RETRIES),
+});
+
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 1s, 2s, 4s... plus jitter so many clients don't retry in step
+const retryDelay = (retry: number) => BASE_RETRY_DELAY_MS * 2 ** (retry - 1) + Math.random() * 250;
+
+// Send with a per-attempt timeout that restarts whenever streamed text arrives, retrying transient failures
+export const sendWithRetry = async (
+  backend: ChatBackend,
+  request: ChatBackendRequest,
+  { onText, signal }: ChatSendOptions,
+  { timeoutMs, maxRetries, onRetry }: RetryOptions
+): Promise<ChatResponse> => {
+  for (let retry = 0; ; retry++) {
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const stop = () => controller.abort(signal?.reason);
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      if (timeoutMs <= 0) return;
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+
+    signal?.addEventListener('abort', stop, { once: true });
+    restartTimer();
+
+    try {
+      return await backend.send(request, {
+        onText: onText && (text => {
+          restartTimer();
+          onText(text);
+        }),
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      const failure = timedOut
+        ? new ChatBackendError(`No response within ${Math.round(timeoutMs / 1000)} seconds.`, true)
+        : error as Error;
+      if (!(failure instanceof ChatBackendError && failure.retryable) || retry >= maxRetries) throw failure;
+
+      console.warn(`🔁 ${backend.name} request failed, retrying (${retry + 1}/${maxRetries}):`, failure.message);
+      onRetry?.(retry + 1, failure);
+      await wait(retryDelay(retry + 1), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+    }
+  }
+};
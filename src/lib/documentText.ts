@@ -0,0 +1,78 @@
+import type { OcrWord } from './ocrService';
+import type { Prescription } from './prescriptionParser';
+import { RedactionMap, buildRedactionMap, detectPii } from './piiRedaction';
+import type { UserActivity } from './supabase';
+
+// Shared shape for text extracted from an uploaded document
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  source: 'text' | 'text-layer' | 'ocr';
+  fileName?: string;
+  language?: string;
+  words?: OcrWord[];
+  image?: { url: string; width: number; height: number };
+}
+
+// A word the user fixed during OCR review
+export interface OcrCorrection {
+  pageNumber: number;
+  original: string;
+  corrected: string;
+  confidence: number;
+}
+
+// What the upload modal hands to the chatbot alongside the extracted text
+export interface ProcessedDocument {
+  text: string;
+  corrections: OcrCorrection[];
+  prescription: Prescription | null;
+  // The `useractivity` row recorded for this upload, so its analysis can be saved back
+  activityId?: string;
+  // Storage paths of the original files
+  filePaths?: string[];
+  // Personal details the user chose to hide from the analysis service
+  redactions?: RedactionMap;
+}
+
+// Rebuild what the upload modal would have handed to the chatbot for a saved upload,
+// hiding every detected personal detail since the original choices aren't stored
+export const activityToDocument = (activity: UserActivity): ProcessedDocument => ({
+  text: activity.extracted_text,
+  corrections: [],
+  prescription: activity.prescription,
+  activityId: activity.id,
+  filePaths: activity.file_paths || undefined,
+  redactions: buildRedactionMap(detectPii(activity.extracted_text, activity.prescription))
+});
+
+// Join extracted pages into a single document, labelling each page by number
+export const combinePages = (pages: ExtractedPage[], labelPages = pages.length > 1): string => {
+  if (!labelPages) {
+    return pages.map(page => page.text).join('\n\n');
+  }
+
+  return pages
+    .map(page => {
+      const label = page.fileName ? `Page ${page.pageNumber} (${page.fileName})` : `Page ${page.pageNumber}`;
+      return `--- ${label} ---\n${page.text}`;
+    })
+    .join('\n\n');
+};
+
+// Tesseract language spec covering every OCR'd page, e.g. "eng+hin"
+export const getDocumentLanguage = (pages: ExtractedPage[]): string | undefined => {
+  const codes = new Set<string>();
+  pages.forEach(page => page.language?.split('+').forEach(code => codes.add(code)));
+  return codes.size > 0 ? Array.from(codes).join('+') : undefined;
+};
+
+export const collectCorrections = (pages: ExtractedPage[]): OcrCorrection[] =>
+  pages.flatMap(page => (page.words || [])
+    .filter(word => word.corrected !== undefined && word.corrected !== word.text)
+    .map(word => ({
+      pageNumber: page.pageNumber,
+      original: word.text,
+      corrected: word.corrected as string,
+      confidence: word.confidence
+    })));
@@ -0,0 +1,16 @@
+// Word documents go through mammoth's HTML output so tables and lists keep one line per row or item.
+// Runs in the extraction worker; the HTML becomes text on the main thread, where DOMParser exists.
+export const convertDocxToHtml = async (file: Blob): Promise<string> => {
+  const { default: mammoth } = await import('mammoth');
+
+  try {
+    const result = await mammoth.convertToHtml(
+      { arrayBuffer: await file.arrayBuffer() },
+      // Embedded pictures are dropped rather than inlined as data URIs
+      { convertImage: mammoth.images.imgElement(async () => ({ src: '' })) }
+    );
+    return result.value;
+  } catch {
+    throw new Error('This Word document could not be read. Only .docx files are supported.');
+  }
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { DOSING_ABBREVIATIONS, annotateDosing, expandDosePattern } from './dosingShorthand';
+
+const meanings = (text: string) => annotateDosing(text).map(({ text: found, meaning }) => [found, meaning]);
+
+describe('DOSING_ABBREVIATIONS', () => {
+  describe.each(DOSING_ABBREVIATIONS)('$abbreviation', ({ variants, meaning, category }) => {
+    it.each(variants)('annotates %s', variant => {
+      const text = `Tab. Example 10 mg ${variant} x 5 days`;
+      const annotation = annotateDosing(text).find(found => found.text === variant);
+
+      expect(annotation).toEqual({
+        start: text.indexOf(variant),
+        end: text.indexOf(variant) + variant.length,
+        text: variant,
+        meaning,
+        category,
+      });
+    });
+  });
+
+  it('accepts dotted variants in upper case', () => {
+    expect(meanings('Tab. Example B.D. P.C.')).toEqual([['B.D.', 'twice a day'], ['P.C.', 'after food']]);
+  });
+
+  it('has no variant listed under two abbreviations', () => {
+    const variants = DOSING_ABBREVIATIONS.flatMap(entry => entry.variants.map(variant => variant.toLowerCase()));
+    expect(new Set(variants).size).toBe(variants.length);
+  });
+});
+
+describe('expandDosePattern', () => {
+  it.each([
+    ['1-0-1', 'tablet', '1 tablet morning and night'],
+    ['1-1-1', 'tablet', '1 tablet morning, afternoon and night'],
+    ['0-0-1', 'capsule', '1 capsule night'],
+    ['2-0-2', 'puff', '2 puffs morning and night'],
+    ['½-0-½', 'tablet', '½ tablet morning and night'],
+    ['1/2-0-1', 'tablet', '½ tablet morning, 1 tablet night'],
+    ['1-0-½', 'tablet', '1 tablet morning, ½ tablet night'],
+    ['1½-0-1', 'tablet', '1½ tablets morning, 1 tablet night'],
+    ['1-1-1-1', 'drop', '1 drop morning, afternoon, evening and night'],
+    ['1-0-1-0', 'tablet', '1 tablet morning and evening'],
+    ['1 - 0 - 1', '', '1 morning and night'],
+  ])('%s (%s)', (pattern, unit, expected) => {
+    expect(expandDosePattern(pattern, unit)).toBe(expected);
+  });
+
+  it.each(['0-0-0', '3-4-5', '1-0', '1-0-1-0-1', 'a-b-c'])('rejects %s', pattern => {
+    expect(expandDosePattern(pattern, 'tablet')).toBeNull();
+  });
+});
+
+describe('annotateDosing', () => {
+  it('reads dose patterns with the form and timing on the same line', () => {
+    expect(meanings('Tab. Metformin 500 mg 1-0-1 after food')).toEqual([
+      ['1-0-1', '1 tablet morning and night after food'],
+    ]);
+    expect(meanings('Cap. Omeprazole 20 mg 1-0-0 AC')).toEqual([
+      ['1-0-0', '1 capsule morning before food'],
+      ['AC', 'before food'],
+    ]);
+    expect(meanings('Syp. Cough 5 ml 1-1-1')).toEqual([['1-1-1', '1 dose morning, afternoon and night']]);
+  });
+
+  it('reads hourly intervals', () => {
+    expect(meanings('Inj. Ceftriaxone q8h')).toEqual([['q8h', 'every 8 hours']]);
+    expect(meanings('Paracetamol Q6H SOS')).toEqual([['Q6H', 'every 6 hours'], ['SOS', 'only if needed']]);
+  });
+
+  it('reports offsets across lines', () => {
+    const text = 'Tab. A OD\nTab. B BD';
+    expect(annotateDosing(text).map(({ start, end }) => text.slice(start, end))).toEqual(['OD', 'BD']);
+  });
+
+  it.each([
+    ['dates', 'Date: 12-05-2024'],
+    ['dates with single digits', 'Review on 1-5-2025'],
+    ['number ranges', 'Take 3-4-5 days apart'],
+    ['phone numbers', 'Call 98-765-4321'],
+    ['lower-case od inside words', 'Take with food, good sleep'],
+    ['lower-case pc inside words', '10 pcs, upcoming visit'],
+    ['bare lower-case abbreviations', 'od bd pc hs'],
+    ['abbreviations inside upper-case words', 'PODIATRY CLINIC, ODISHA'],
+  ])('ignores %s', (_case, text) => {
+    expect(annotateDosing(text)).toEqual([]);
+  });
+});
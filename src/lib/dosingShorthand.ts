@@ -0,0 +1,175 @@
+// Explains prescription shorthand (Latin abbreviations and "1-0-1" patterns) in plain language
+
+export type DosingCategory = 'frequency' | 'timing' | 'route';
+
+export interface DosingAbbreviation {
+  abbreviation: string;
+  // Written forms matched in text; dotted variants may be lower case, bare ones must be upper case
+  variants: string[];
+  meaning: string;
+  category: DosingCategory;
+}
+
+export interface DosingAnnotation {
+  start: number;
+  end: number;
+  text: string;
+  meaning: string;
+  category: DosingCategory;
+}
+
+export const DOSING_ABBREVIATIONS: DosingAbbreviation[] = [
+  { abbreviation: 'OD', variants: ['OD', 'QD', 'o.d.', 'q.d.'], meaning: 'once a day', category: 'frequency' },
+  { abbreviation: 'BD', variants: ['BD', 'BID', 'b.d.', 'b.i.d.'], meaning: 'twice a day', category: 'frequency' },
+  { abbreviation: 'TDS', variants: ['TDS', 'TID', 't.d.s.', 't.i.d.'], meaning: 'three times a day', category: 'frequency' },
+  { abbreviation: 'QID', variants: ['QID', 'QDS', 'q.i.d.', 'q.d.s.'], meaning: 'four times a day', category: 'frequency' },
+  { abbreviation: 'QAM', variants: ['QAM', 'q.a.m.'], meaning: 'every morning', category: 'frequency' },
+  { abbreviation: 'QPM', variants: ['QPM', 'q.p.m.'], meaning: 'every evening', category: 'frequency' },
+  { abbreviation: 'QOD', variants: ['QOD', 'q.o.d.'], meaning: 'every other day', category: 'frequency' },
+  { abbreviation: 'HS', variants: ['HS', 'h.s.'], meaning: 'at bedtime', category: 'frequency' },
+  { abbreviation: 'SOS', variants: ['SOS', 's.o.s.'], meaning: 'only if needed', category: 'frequency' },
+  { abbreviation: 'PRN', variants: ['PRN', 'p.r.n.'], meaning: 'as needed', category: 'frequency' },
+  { abbreviation: 'STAT', variants: ['STAT'], meaning: 'immediately, one dose', category: 'frequency' },
+  { abbreviation: 'AC', variants: ['AC', 'a.c.'], meaning: 'before food', category: 'timing' },
+  { abbreviation: 'PC', variants: ['PC', 'p.c.'], meaning: 'after food', category: 'timing' },
+  { abbreviation: 'PO', variants: ['PO', 'p.o.'], meaning: 'by mouth', category: 'route' },
+  { abbreviation: 'SL', variants: ['SL', 's.l.'], meaning: 'under the tongue', category: 'route' },
+  { abbreviation: 'IV', variants: ['IV', 'i.v.'], meaning: 'injected into a vein', category: 'route' },
+  { abbreviation: 'IM', variants: ['IM', 'i.m.'], meaning: 'injected into a muscle', category: 'route' },
+  { abbreviation: 'SC', variants: ['SC', 'SQ', 's.c.'], meaning: 'injected under the skin', category: 'route' },
+  { abbreviation: 'PR', variants: ['PR', 'p.r.'], meaning: 'inserted into the rectum', category: 'route' },
+  { abbreviation: 'INH', variants: ['INH'], meaning: 'breathed in', category: 'route' },
+  { abbreviation: 'TOP', variants: ['TOP'], meaning: 'applied on the skin', category: 'route' },
+];
+
+// Slots for Indian-style dose patterns: "1-0-1" is morning-afternoon-night, four parts add evening
+const DOSE_SLOTS: Record<number, string[]> = {
+  3: ['morning', 'afternoon', 'night'],
+  4: ['morning', 'afternoon', 'evening', 'night'],
+};
+
+// Dose unit implied by the form written at the start of the line
+const FORM_UNITS: [RegExp, string][] = [
+  [/\b(?:tab|tabs|tablet)\b/i, 'tablet'],
+  [/\b(?:cap|caps|capsule)\b/i, 'capsule'],
+  [/\b(?:drops?|gtt)\b/i, 'drop'],
+  [/\b(?:puffs?|inh|inhaler)\b/i, 'puff'],
+];
+
+const QUANTITY = '(?:\\d½|½|\\d\\/\\d|\\d)';
+const DOSE_PATTERN = new RegExp(`(?<![\\d/-])${QUANTITY}(?:\\s?-\\s?${QUANTITY}){2,3}(?![\\d/-])`, 'g');
+const HOURLY_PATTERN = /\b[Qq](\d{1,2})[Hh]\b/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Dotted forms like "b.d." are unambiguous in any case; bare "OD" or "PC" only count in upper case
+const ABBREVIATION_PATTERN = new RegExp(
+  DOSING_ABBREVIATIONS
+    .flatMap(entry => entry.variants)
+    .sort((a, b) => b.length - a.length)
+    .map(variant => (variant.includes('.')
+      ? `(?<![\\p{L}\\p{N}.])${escapeRegExp(variant).replace(/\p{L}/gu, letter => `[${letter.toLowerCase()}${letter.toUpperCase()}]`)}`
+      : `(?<![\\p{L}\\p{N}])${variant}(?![\\p{L}\\p{N}])`))
+    .join('|'),
+  'gu'
+);
+
+const VARIANT_LOOKUP = new Map(
+  DOSING_ABBREVIATIONS.flatMap(entry => entry.variants.map(variant => [variant.toLowerCase(), entry] as const))
+);
+
+const parseQuantity = (value: string) => {
+  if (value === '½') return 0.5;
+  if (value.endsWith('½')) return Number(value[0]) + 0.5;
+  if (value.includes('/')) {
+    const [numerator, denominator] = value.split('/').map(Number);
+    return numerator / denominator;
+  }
+  return Number(value);
+};
+
+const formatQuantity = (quantity: number, unit: string) => {
+  const amount = quantity === 0.5 ? '½' : Number.isInteger(quantity) ? String(quantity) : `${Math.floor(quantity)}½`;
+  if (!unit) return amount;
+  return `${amount} ${unit}${quantity > 1 ? 's' : ''}`;
+};
+
+const joinSlots = (slots: string[]) =>
+  slots.length > 1 ? `${slots.slice(0, -1).join(', ')} and ${slots[slots.length - 1]}` : slots[0];
+
+// "1-0-1" -> "1 tablet morning and night"; "1-0-½" -> "1 tablet morning, ½ tablet night"
+export const expandDosePattern = (pattern: string, unit = ''): string | null => {
+  const quantities = pattern.split('-').map(part => parseQuantity(part.trim()));
+  const slots = DOSE_SLOTS[quantities.length];
+  if (!slots || quantities.some(quantity => Number.isNaN(quantity) || quantity > 4)) return null;
+
+  const doses = quantities
+    .map((quantity, index) => ({ quantity, slot: slots[index] }))
+    .filter(dose => dose.quantity > 0);
+  if (doses.length === 0) return null;
+
+  if (doses.every(dose => dose.quantity === doses[0].quantity)) {
+    return `${formatQuantity(doses[0].quantity, unit)} ${joinSlots(doses.map(dose => dose.slot))}`;
+  }
+  return doses.map(dose => `${formatQuantity(dose.quantity, unit)} ${dose.slot}`).join(', ');
+};
+
+const lineUnit = (line: string) => FORM_UNITS.find(([pattern]) => pattern.test(line))?.[1] ?? 'dose';
+
+const lineTiming = (line: string) => {
+  const match = line.match(/\b(?:before|after) (?:food|meals?|breakfast)\b/i);
+  if (match) return match[0].toLowerCase();
+  const abbreviation = Array.from(line.matchAll(ABBREVIATION_PATTERN))
+    .map(found => VARIANT_LOOKUP.get(found[0].toLowerCase()))
+    .find(entry => entry?.category === 'timing');
+  return abbreviation?.meaning ?? '';
+};
+
+// Find every piece of dosing shorthand in the text with a plain-language reading, in text order
+export const annotateDosing = (text: string): DosingAnnotation[] => {
+  const annotations: DosingAnnotation[] = [];
+  let offset = 0;
+
+  text.split('\n').forEach(line => {
+    const unit = lineUnit(line);
+    const timing = lineTiming(line);
+
+    for (const match of line.matchAll(DOSE_PATTERN)) {
+      const schedule = expandDosePattern(match[0], unit);
+      if (!schedule) continue;
+      annotations.push({
+        start: offset + (match.index ?? 0),
+        end: offset + (match.index ?? 0) + match[0].length,
+        text: match[0],
+        meaning: timing ? `${schedule} ${timing}` : schedule,
+        category: 'frequency',
+      });
+    }
+
+    for (const match of line.matchAll(HOURLY_PATTERN)) {
+      annotations.push({
+        start: offset + (match.index ?? 0),
+        end: offset + (match.index ?? 0) + match[0].length,
+        text: match[0],
+        meaning: `every ${match[1]} hours`,
+        category: 'frequency',
+      });
+    }
+
+    for (const match of line.matchAll(ABBREVIATION_PATTERN)) {
+      const entry = VARIANT_LOOKUP.get(match[0].toLowerCase());
+      if (!entry) continue;
+      annotations.push({
+        start: offset + (match.index ?? 0),
+        end: offset + (match.index ?? 0) + match[0].length,
+        text: match[0],
+        meaning: entry.meaning,
+        category: entry.category,
+      });
+    }
+
+    offset += line.length + 1;
+  });
+
+  return annotations.sort((a, b) => a.start - b.start);
+};
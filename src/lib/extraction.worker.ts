@@ -0,0 +1,18 @@
+import { ExtractionRequest, ExtractionResponse, runExtractionJob } from './extractionJobs';
+
+// The client sends one job at a time and replaces this worker to cancel a running job
+self.onmessage = async (event: MessageEvent<ExtractionRequest>) => {
+  const { id, type, input } = event.data;
+  let response: ExtractionResponse;
+  let transfer: Transferable[] = [];
+
+  try {
+    const result = await runExtractionJob(type, input);
+    response = { id, ok: true, output: result.output };
+    transfer = result.transfer;
+  } catch (error) {
+    response = { id, ok: false, message: error instanceof Error ? error.message : 'Extraction failed' };
+  }
+
+  self.postMessage(response, { transfer });
+};
@@ -0,0 +1,86 @@
+import {
+  PreprocessingOptions,
+  PreprocessingReport,
+  Raster,
+  ImageResizeInfo,
+  preprocessImage,
+  downscaleImage
+} from './imagePreprocessing';
+import { Prescription, parsePrescription } from './prescriptionParser';
+import { decodeTiffPages } from './tiff';
+import { convertDocxToHtml } from './docx';
+
+// Message protocol for the extraction worker; each job type maps its input to its output.
+// Still on the main thread, because they need the DOM: rendering scanned PDF pages (pdf.js draws
+// with document fonts and canvases; its parsing already has its own worker), HEIC conversion
+// (heic2any encodes through a DOM canvas) and HTML-to-text (DOMParser). Each scanned PDF page or
+// HEIC photo can therefore still pause the modal briefly while it is drawn.
+export interface ExtractionJobs {
+  preprocessImage: {
+    input: { image: Blob; options: PreprocessingOptions };
+    output: { raster: Raster; report: PreprocessingReport };
+  };
+  downscaleImage: {
+    input: { image: Blob; maxBytes: number };
+    output: { blob: Blob; resize: ImageResizeInfo };
+  };
+  decodeTiff: {
+    input: { image: Blob };
+    output: { pages: Blob[] };
+  };
+  parsePrescription: {
+    input: { text: string };
+    output: Prescription;
+  };
+  convertDocx: {
+    input: { file: Blob };
+    output: { html: string };
+  };
+}
+
+export type ExtractionJobType = keyof ExtractionJobs;
+export type ExtractionInput<K extends ExtractionJobType> = ExtractionJobs[K]['input'];
+export type ExtractionOutput<K extends ExtractionJobType> = ExtractionJobs[K]['output'];
+
+export type ExtractionRequest = {
+  [K in ExtractionJobType]: { id: number; type: K; input: ExtractionInput<K> };
+}[ExtractionJobType];
+
+export type ExtractionResponse =
+  | { id: number; ok: true; output: ExtractionOutput<ExtractionJobType> }
+  | { id: number; ok: false; message: string };
+
+interface JobHandler<K extends ExtractionJobType> {
+  run: (input: ExtractionInput<K>) => Promise<ExtractionOutput<K>>;
+  // Buffers handed over with the result instead of being copied
+  transfer?: (output: ExtractionOutput<K>) => Transferable[];
+}
+
+const HANDLERS: { [K in ExtractionJobType]: JobHandler<K> } = {
+  preprocessImage: {
+    run: ({ image, options }) => preprocessImage(image, options),
+    transfer: ({ raster }) => [raster.data.buffer]
+  },
+  downscaleImage: {
+    run: ({ image, maxBytes }) => downscaleImage(image, maxBytes)
+  },
+  decodeTiff: {
+    run: async ({ image }) => ({ pages: await decodeTiffPages(image) })
+  },
+  parsePrescription: {
+    run: async ({ text }) => parsePrescription(text)
+  },
+  convertDocx: {
+    run: async ({ file }) => ({ html: await convertDocxToHtml(file) })
+  }
+};
+
+// Shared by the worker and by the main-thread fallback when workers are unavailable
+export const runExtractionJob = async <K extends ExtractionJobType>(
+  type: K,
+  input: ExtractionInput<K>
+): Promise<{ output: ExtractionOutput<K>; transfer: Transferable[] }> => {
+  const handler: JobHandler<K> = HANDLERS[type];
+  const output = await handler.run(input);
+  return { output, transfer: handler.transfer?.(output) ?? [] };
+};
@@ -0,0 +1,179 @@
+import {
+  ExtractionJobType,
+  ExtractionInput,
+  ExtractionOutput,
+  ExtractionRequest,
+  ExtractionResponse,
+  runExtractionJob
+} from './extractionJobs';
+import { PreprocessingOptions, PreprocessingReport, ImageResizeInfo, rasterToCanvas } from './imagePreprocessing';
+import type { Prescription } from './prescriptionParser';
+
+interface ExtractionJob {
+  request: ExtractionRequest;
+  resolve: (output: ExtractionOutput<ExtractionJobType>) => void;
+  reject: (error: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let activeJob: ExtractionJob | null = null;
+let nextJobId = 1;
+const queue: ExtractionJob[] = [];
+
+// Set when the browser can't start a module worker; jobs then run on the main thread
+let workerUnavailable = typeof Worker === 'undefined';
+
+const createAbortError = () => new DOMException('Extraction job was cancelled', 'AbortError');
+
+const stopWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+const finishJob = (job: ExtractionJob, settle: () => void) => {
+  if (activeJob !== job) return;
+  activeJob = null;
+  settle();
+  dispatch();
+};
+
+const startWorker = () => {
+  const instance = new Worker(new URL('./extraction.worker.ts', import.meta.url), { type: 'module' });
+
+  instance.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+    const job = activeJob;
+    const response = event.data;
+    if (!job || job.request.id !== response.id) return;
+
+    finishJob(job, () => {
+      if (response.ok) {
+        job.resolve(response.output);
+      } else {
+        job.reject(new Error(response.message));
+      }
+    });
+  };
+
+  // Only reached when the worker script itself fails to load; retry the job on the main thread
+  instance.onerror = (event) => {
+    event.preventDefault();
+    console.error('Extraction worker failed, falling back to the main thread:', event.message);
+    stopWorker();
+    workerUnavailable = true;
+    if (activeJob) {
+      queue.unshift(activeJob);
+      activeJob = null;
+    }
+    dispatch();
+  };
+
+  return instance;
+};
+
+const runOnMainThread = async (job: ExtractionJob) => {
+  try {
+    const { output } = await runExtractionJob(job.request.type, job.request.input);
+    finishJob(job, () => job.resolve(output));
+  } catch (error) {
+    finishJob(job, () => job.reject(error));
+  }
+};
+
+// One job at a time, so a cancelled job can be stopped by replacing the worker
+const dispatch = () => {
+  if (activeJob) return;
+  const job = queue.shift();
+  if (!job) return;
+  activeJob = job;
+
+  if (!workerUnavailable) {
+    try {
+      worker ??= startWorker();
+      worker.postMessage(job.request);
+      return;
+    } catch (error) {
+      console.error('Error starting extraction worker:', error);
+      workerUnavailable = true;
+    }
+  }
+  runOnMainThread(job);
+};
+
+const cancelJob = (job: ExtractionJob) => {
+  const queuedIndex = queue.indexOf(job);
+  if (queuedIndex !== -1) {
+    queue.splice(queuedIndex, 1);
+    job.reject(createAbortError());
+    return;
+  }
+
+  if (activeJob === job) {
+    stopWorker();
+    finishJob(job, () => job.reject(createAbortError()));
+  }
+};
+
+// Queue a job for the extraction worker; aborting the signal rejects with an AbortError
+export const runInExtractionWorker = <K extends ExtractionJobType>(
+  type: K,
+  input: ExtractionInput<K>,
+  signal?: AbortSignal
+): Promise<ExtractionOutput<K>> => {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<ExtractionOutput<K>>((resolve, reject) => {
+    const request = { id: nextJobId++, type, input } as ExtractionRequest;
+    const job: ExtractionJob = {
+      request,
+      resolve: output => resolve(output as ExtractionOutput<K>),
+      reject
+    };
+
+    if (signal) {
+      const onAbort = () => cancelJob(job);
+      signal.addEventListener('abort', onAbort, { once: true });
+      job.resolve = (output) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(output as ExtractionOutput<K>);
+      };
+      job.reject = (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      };
+    }
+
+    queue.push(job);
+    dispatch();
+  });
+};
+
+// Decode and clean up a photo off the main thread; only the final canvas is drawn here for Tesseract
+export const preprocessImage = async (
+  image: Blob,
+  options: PreprocessingOptions,
+  signal?: AbortSignal
+): Promise<{ canvas: HTMLCanvasElement; report: PreprocessingReport }> => {
+  const { raster, report } = await runInExtractionWorker('preprocessImage', { image, options }, signal);
+  return { canvas: rasterToCanvas(raster), report };
+};
+
+export const downscaleImageFile = async (
+  file: File,
+  maxBytes: number,
+  signal?: AbortSignal
+): Promise<{ file: File; resize: ImageResizeInfo }> => {
+  const { blob, resize } = await runInExtractionWorker('downscaleImage', { image: file, maxBytes }, signal);
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  return { file: new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified }), resize };
+};
+
+export const decodeTiffPages = async (image: Blob, signal?: AbortSignal): Promise<Blob[]> =>
+  (await runInExtractionWorker('decodeTiff', { image }, signal)).pages;
+
+export const parsePrescription = (text: string, signal?: AbortSignal): Promise<Prescription> =>
+  runInExtractionWorker('parsePrescription', { text }, signal);
+
+export const convertDocxToHtml = async (file: Blob, signal?: AbortSignal): Promise<string> =>
+  (await runInExtractionWorker('convertDocx', { file }, signal)).html;
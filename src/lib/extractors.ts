@@ -0,0 +1,204 @@
+import { recognizeImage, isAbortError } from './ocrService';
+import { extractPdfPages } from './pdf';
+import { extractHtmlPages, extractHtmlText } from './html';
+import { extractRtfPages } from './rtf';
+import { ExtractedPage } from './documentText';
+import { PreprocessingOptions, PreprocessingReport, canvasToObjectUrl } from './imagePreprocessing';
+import { preprocessImage, decodeTiffPages, convertDocxToHtml } from './extractionWorker';
+
+export interface ExtractionContext {
+  onProgress: (progress: number) => void;
+  preprocessing: PreprocessingOptions;
+  language: string;
+  onPreprocessed?: (imageUrl: string | undefined, report: PreprocessingReport) => void;
+  signal?: AbortSignal;
+}
+
+export interface DocumentExtractor {
+  name: string;
+  // Short format names listed in the drop zone
+  formats: string[];
+  mimeTypes: string[];
+  extensions: string[];
+  description: string;
+  // The browser can decode and preview it, and oversized files are resized instead of rejected
+  browserImage?: boolean;
+  // Text comes from OCR, so preprocessing and language changes re-run it
+  ocr?: boolean;
+  extract: (file: File, context: ExtractionContext) => Promise<ExtractedPage[]>;
+}
+
+// Clean up one photo in the extraction worker, then run OCR with Tesseract.js
+const recognizePhoto = async (
+  image: Blob,
+  pageNumber: number,
+  { onProgress, preprocessing, language, signal }: ExtractionContext,
+  onPreprocessed?: ExtractionContext['onPreprocessed']
+): Promise<ExtractedPage> => {
+  const { canvas, report } = await preprocessImage(image, preprocessing, signal);
+  const imageUrl = await canvasToObjectUrl(canvas);
+  onPreprocessed?.(imageUrl, report);
+  const { text, language: detectedLanguage, words } = await recognizeImage(canvas, { onProgress, signal, language });
+
+  return {
+    pageNumber,
+    text,
+    source: 'ocr',
+    language: detectedLanguage,
+    words,
+    image: imageUrl ? { url: imageUrl, width: canvas.width, height: canvas.height } : undefined
+  };
+};
+
+const withOcrErrors = async (run: () => Promise<ExtractedPage[]>): Promise<ExtractedPage[]> => {
+  try {
+    const pages = await run();
+    if (pages.every(page => !page.text)) {
+      throw new Error('No text could be extracted from the image. Please ensure the image is clear and contains readable text.');
+    }
+    return pages;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new Error(`OCR processing failed: ${(error as Error).message}`);
+  }
+};
+
+const extractPhoto = (file: File, context: ExtractionContext) =>
+  withOcrErrors(async () => [await recognizePhoto(file, 1, context, context.onPreprocessed)]);
+
+// iPhone photos are converted to JPEG first; only Safari can decode HEIC natively.
+// heic2any draws to a DOM canvas, so this conversion can't move to the extraction worker.
+const extractHeic = (file: File, context: ExtractionContext) =>
+  withOcrErrors(async () => {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    context.signal?.throwIfAborted();
+    const jpeg = Array.isArray(converted) ? converted[0] : converted;
+    return [await recognizePhoto(jpeg, 1, context, context.onPreprocessed)];
+  });
+
+// The DOCX is unzipped and converted in the worker; only the HTML-to-text pass runs here
+const extractDocx = async (file: File, { signal }: ExtractionContext): Promise<ExtractedPage[]> => {
+  const text = extractHtmlText(await convertDocxToHtml(file, signal));
+  if (!text) {
+    throw new Error('No text was found in the Word document.');
+  }
+  return [{ pageNumber: 1, text, source: 'text' }];
+};
+
+// Every page of a multi-page TIFF is OCR'd in order, like scanned PDF pages
+const extractTiff = (file: File, context: ExtractionContext) =>
+  withOcrErrors(async () => {
+    const images = await decodeTiffPages(file, context.signal);
+    const pages: ExtractedPage[] = [];
+
+    for (let index = 0; index < images.length; index++) {
+      const pageContext = {
+        ...context,
+        onProgress: (progress: number) => context.onProgress((index + progress) / images.length)
+      };
+      pages.push(await recognizePhoto(images[index], index + 1, pageContext, index === 0 ? context.onPreprocessed : undefined));
+    }
+    return pages;
+  });
+
+const extractPdf = async (file: File, { onProgress, signal, language }: ExtractionContext) => {
+  const pages = await extractPdfPages(file, { onProgress, signal, language });
+
+  if (pages.every(page => page.text.trim().length === 0)) {
+    throw new Error('No text could be extracted from the PDF. Please ensure the document contains readable text.');
+  }
+
+  return pages;
+};
+
+const extractPlainText = async (file: File): Promise<ExtractedPage[]> => [
+  { pageNumber: 1, text: await file.text(), source: 'text' }
+];
+
+// Every format the upload tab accepts; the file picker and drop zone text are built from this list
+export const DOCUMENT_EXTRACTORS: DocumentExtractor[] = [
+  {
+    name: 'PDF files',
+    formats: ['PDF'],
+    mimeTypes: ['application/pdf'],
+    extensions: ['.pdf'],
+    description: 'Text extraction, with OCR for scanned pages',
+    extract: extractPdf
+  },
+  {
+    name: 'Word documents',
+    formats: ['DOCX'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+    description: 'Document text, including tables',
+    extract: extractDocx
+  },
+  {
+    name: 'Rich text',
+    formats: ['RTF'],
+    mimeTypes: ['application/rtf', 'text/rtf'],
+    extensions: ['.rtf'],
+    description: 'Document text',
+    extract: extractRtfPages
+  },
+  {
+    name: 'Web pages',
+    formats: ['HTML'],
+    mimeTypes: ['text/html'],
+    extensions: ['.html', '.htm'],
+    description: 'Readable page text without menus and scripts',
+    extract: extractHtmlPages
+  },
+  {
+    name: 'Text files',
+    formats: ['TXT'],
+    mimeTypes: ['text/plain'],
+    extensions: ['.txt'],
+    description: 'Direct content reading',
+    extract: extractPlainText
+  },
+  {
+    name: 'Images',
+    formats: ['JPG', 'PNG', 'GIF', 'BMP', 'WebP'],
+    mimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/bmp', 'image/webp'],
+    extensions: ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'],
+    description: 'OCR text recognition',
+    browserImage: true,
+    ocr: true,
+    extract: extractPhoto
+  },
+  {
+    name: 'iPhone photos',
+    formats: ['HEIC'],
+    mimeTypes: ['image/heic', 'image/heif'],
+    extensions: ['.heic', '.heif'],
+    description: 'Converted in the browser, then OCR',
+    ocr: true,
+    extract: extractHeic
+  },
+  {
+    name: 'TIFF scans',
+    formats: ['TIFF'],
+    mimeTypes: ['image/tiff'],
+    extensions: ['.tif', '.tiff'],
+    description: 'OCR on every page of multi-page files',
+    ocr: true,
+    extract: extractTiff
+  }
+];
+
+export const SUPPORTED_FORMATS = DOCUMENT_EXTRACTORS.flatMap(extractor => extractor.formats).join(', ');
+
+export const ACCEPTED_FILE_TYPES = DOCUMENT_EXTRACTORS
+  .flatMap(extractor => [...extractor.extensions, ...extractor.mimeTypes])
+  .join(',');
+
+// Match on MIME type first; HEIC, RTF and some DOCX files arrive with an empty or generic type
+export const findExtractor = (file: File): DocumentExtractor | undefined => {
+  const byType = DOCUMENT_EXTRACTORS.find(extractor => extractor.mimeTypes.includes(file.type));
+  if (byType) return byType;
+
+  const extension = file.name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+  return extension ? DOCUMENT_EXTRACTORS.find(extractor => extractor.extensions.includes(extension)) : undefined;
+};
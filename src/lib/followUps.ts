@@ -0,0 +1,29 @@
+import type { ChatResponse } from './chatResponse';
+
+const MAX_FOLLOW_UPS = 4;
+
+// Shown when the backend doesn't suggest anything, keyed by session type
+export const DEFAULT_FOLLOW_UPS: Record<string, string[]> = {
+  upload: [
+    'What is each medicine on this prescription for?',
+    'When and how should I take these?',
+    'Are there any interactions between these medicines?',
+  ],
+  'medicine-search': [
+    'What are the common side effects?',
+    'Can I take it with food or alcohol?',
+    'What should I do if I miss a dose?',
+  ],
+  question: [
+    'When should I see a doctor about this?',
+    'Are there any medicines I should avoid?',
+    'What can I do at home to help?',
+  ],
+};
+
+// The reply's own suggestions when it has any, otherwise the defaults for the session type
+export const getFollowUps = (response: ChatResponse | undefined, context: string): string[] => {
+  const suggested = [...new Set(response?.follow_ups.map(question => question.trim()).filter(Boolean) ?? [])];
+  const followUps = suggested.length > 0 ? suggested : DEFAULT_FOLLOW_UPS[context] ?? DEFAULT_FOLLOW_UPS.question;
+  return followUps.slice(0, MAX_FOLLOW_UPS);
+};
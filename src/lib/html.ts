@@ -0,0 +1,28 @@
+import type { ExtractedPage } from './documentText';
+
+// Elements whose text is never part of the readable page
+const IGNORED_ELEMENTS = 'script, style, noscript, template, svg, iframe, object, head, nav, footer';
+
+const BLOCK_ELEMENTS = 'p, div, section, article, main, header, aside, li, tr, h1, h2, h3, h4, h5, h6, pre, blockquote, table, ul, ol, dl, dt, dd, br, hr';
+
+// Readable text of an HTML document, keeping one line per block and cell gaps as spaces
+export const extractHtmlText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll(IGNORED_ELEMENTS).forEach(element => element.remove());
+  doc.querySelectorAll(BLOCK_ELEMENTS).forEach(element => element.after(doc.createTextNode('\n')));
+  doc.querySelectorAll('td, th').forEach(element => element.after(doc.createTextNode('  ')));
+
+  return (doc.body?.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+};
+
+export const extractHtmlPages = async (file: File): Promise<ExtractedPage[]> => {
+  const text = extractHtmlText(await file.text());
+  if (!text) {
+    throw new Error('No readable text was found on the page.');
+  }
+  return [{ pageNumber: 1, text, source: 'text' }];
+};
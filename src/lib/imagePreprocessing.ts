@@ -0,0 +1,603 @@
+// Image cleanup applied to phone photos before they are handed to Tesseract
+
+export interface PreprocessingOptions {
+  grayscale: boolean;
+  binarize: boolean;
+  deskew: boolean;
+  rotate: boolean;
+  autoCrop: boolean;
+}
+
+export interface PreprocessingReport {
+  rotation: number;
+  skewAngle: number;
+  cropped: boolean;
+}
+
+export const DEFAULT_PREPROCESSING_OPTIONS: PreprocessingOptions = {
+  grayscale: true,
+  binarize: true,
+  deskew: true,
+  rotate: true,
+  autoCrop: true,
+};
+
+export const PREPROCESSING_STEPS: { key: keyof PreprocessingOptions; label: string }[] = [
+  { key: 'autoCrop', label: 'Crop to paper' },
+  { key: 'rotate', label: 'Fix rotation' },
+  { key: 'deskew', label: 'Straighten' },
+  { key: 'grayscale', label: 'Grayscale' },
+  { key: 'binarize', label: 'Black & white' },
+];
+
+export interface Raster {
+  width: number;
+  height: number;
+  channels: 1 | 4;
+  data: Uint8ClampedArray;
+}
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Photos are scaled down to this size before processing; it is plenty for OCR
+const MAX_WORKING_SIDE = 3000;
+
+// Detection steps run on a smaller copy to stay fast
+const MAX_ANALYSIS_SIDE = 1000;
+
+const MAX_SKEW_DEGREES = 15;
+const MIN_SKEW_DEGREES = 0.2;
+
+const toGray = (raster: Raster): Raster => {
+  if (raster.channels === 1) return raster;
+
+  const { width, height, data } = raster;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+  return { width, height, channels: 1, data: gray };
+};
+
+const downscale = (gray: Raster, maxSide: number): { raster: Raster; scale: number } => {
+  const scale = Math.min(1, maxSide / Math.max(gray.width, gray.height));
+  if (scale === 1) return { raster: gray, scale };
+
+  const width = Math.max(1, Math.round(gray.width * scale));
+  const height = Math.max(1, Math.round(gray.height * scale));
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(gray.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(gray.width - 1, Math.floor(x / scale));
+      data[y * width + x] = gray.data[sourceY * gray.width + sourceX];
+    }
+  }
+  return { raster: { width, height, channels: 1, data }, scale };
+};
+
+// Global threshold that best separates dark and light pixels
+const otsuThreshold = (gray: Raster): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.data.forEach(value => histogram[value]++);
+
+  const total = gray.data.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let backgroundSum = 0;
+  let backgroundWeight = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+
+  for (let i = 0; i < 256; i++) {
+    backgroundWeight += histogram[i];
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = total - backgroundWeight;
+    if (foregroundWeight === 0) break;
+
+    backgroundSum += i * histogram[i];
+    const backgroundMean = backgroundSum / backgroundWeight;
+    const foregroundMean = (sum - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = i;
+    }
+  }
+
+  return threshold;
+};
+
+// 1 marks ink, 0 marks paper
+const inkMask = (gray: Raster): Raster => {
+  const threshold = otsuThreshold(gray);
+  const data = new Uint8ClampedArray(gray.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = gray.data[i] <= threshold ? 1 : 0;
+  }
+  return { width: gray.width, height: gray.height, channels: 1, data };
+};
+
+const findPaperBounds = (gray: Raster): Bounds | null => {
+  const threshold = otsuThreshold(gray);
+  const { width, height, data } = gray;
+  const rowCounts = new Array<number>(height).fill(0);
+  const columnCounts = new Array<number>(width).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] > threshold) {
+        rowCounts[y]++;
+        columnCounts[x]++;
+      }
+    }
+  }
+
+  const isPaperRow = (y: number) => rowCounts[y] > width * 0.5;
+  const isPaperColumn = (x: number) => columnCounts[x] > height * 0.5;
+
+  let top = 0;
+  while (top < height && !isPaperRow(top)) top++;
+  let bottom = height - 1;
+  while (bottom > top && !isPaperRow(bottom)) bottom--;
+  let left = 0;
+  while (left < width && !isPaperColumn(left)) left++;
+  let right = width - 1;
+  while (right > left && !isPaperColumn(right)) right--;
+
+  const bounds = { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  const coverage = (bounds.width * bounds.height) / (width * height);
+
+  // Skip cropping when the paper already fills the frame or detection looks wrong
+  if (bounds.width <= 0 || bounds.height <= 0 || coverage > 0.95 || coverage < 0.3) {
+    return null;
+  }
+  return bounds;
+};
+
+const crop = (raster: Raster, bounds: Bounds): Raster => {
+  const { channels } = raster;
+  const data = new Uint8ClampedArray(bounds.width * bounds.height * channels);
+  for (let y = 0; y < bounds.height; y++) {
+    const start = ((bounds.y + y) * raster.width + bounds.x) * channels;
+    data.set(raster.data.subarray(start, start + bounds.width * channels), y * bounds.width * channels);
+  }
+  return { width: bounds.width, height: bounds.height, channels, data };
+};
+
+// Rotate clockwise by a multiple of 90 degrees
+const rotateQuarterTurns = (raster: Raster, turns: number): Raster => {
+  const normalized = ((turns % 4) + 4) % 4;
+  if (normalized === 0) return raster;
+
+  const { width, height, channels } = raster;
+  const swap = normalized % 2 === 1;
+  const outWidth = swap ? height : width;
+  const outHeight = swap ? width : height;
+  const data = new Uint8ClampedArray(raster.data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let outX: number;
+      let outY: number;
+      if (normalized === 1) {
+        outX = height - 1 - y;
+        outY = x;
+      } else if (normalized === 2) {
+        outX = width - 1 - x;
+        outY = height - 1 - y;
+      } else {
+        outX = y;
+        outY = width - 1 - x;
+      }
+      const source = (y * width + x) * channels;
+      const target = (outY * outWidth + outX) * channels;
+      for (let c = 0; c < channels; c++) {
+        data[target + c] = raster.data[source + c];
+      }
+    }
+  }
+
+  return { width: outWidth, height: outHeight, channels, data };
+};
+
+// Rotate by an arbitrary angle around the centre, filling uncovered corners with white
+const rotateByAngle = (raster: Raster, degrees: number): Raster => {
+  const { width, height, channels } = raster;
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const data = new Uint8ClampedArray(raster.data.length).fill(255);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - centerX;
+      const dy = y - centerY;
+      const sourceX = Math.round(dx * cos + dy * sin + centerX);
+      const sourceY = Math.round(-dx * sin + dy * cos + centerY);
+      if (sourceX < 0 || sourceY < 0 || sourceX >= width || sourceY >= height) continue;
+
+      const source = (sourceY * width + sourceX) * channels;
+      const target = (y * width + x) * channels;
+      for (let c = 0; c < channels; c++) {
+        data[target + c] = raster.data[source + c];
+      }
+    }
+  }
+
+  return { width, height, channels, data };
+};
+
+const profileVariation = (profile: number[]): number => {
+  const mean = profile.reduce((sum, value) => sum + value, 0) / profile.length;
+  if (mean === 0) return 0;
+  const variance = profile.reduce((sum, value) => sum + (value - mean) ** 2, 0) / profile.length;
+  return variance / (mean * mean);
+};
+
+// Text lines produce a strongly alternating row profile; sideways text does so across columns
+const isSideways = (mask: Raster): boolean => {
+  const rows = new Array<number>(mask.height).fill(0);
+  const columns = new Array<number>(mask.width).fill(0);
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.data[y * mask.width + x]) {
+        rows[y]++;
+        columns[x]++;
+      }
+    }
+  }
+  return profileVariation(columns) > profileVariation(rows) * 1.3;
+};
+
+// Latin text has more ascenders (capitals, digits, b/d/h/k/l/t) than descenders,
+// so upright lines carry more ink above their x-height core than below it
+const isUpsideDown = (mask: Raster): boolean => {
+  const rows = new Array<number>(mask.height).fill(0);
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      rows[y] += mask.data[y * mask.width + x];
+    }
+  }
+
+  const lineThreshold = Math.max(1, mask.width * 0.005);
+  let above = 0;
+  let below = 0;
+  let y = 0;
+
+  while (y < mask.height) {
+    if (rows[y] < lineThreshold) {
+      y++;
+      continue;
+    }
+
+    const start = y;
+    while (y < mask.height && rows[y] >= lineThreshold) y++;
+    const band = rows.slice(start, y);
+    if (band.length < 4) continue;
+
+    const peak = Math.max(...band);
+    const coreStart = band.findIndex(value => value >= peak * 0.5);
+    const coreEnd = band.length - 1 - [...band].reverse().findIndex(value => value >= peak * 0.5);
+
+    band.forEach((value, index) => {
+      if (index < coreStart) above += value;
+      if (index > coreEnd) below += value;
+    });
+  }
+
+  return below > above * 1.2;
+};
+
+const detectQuarterTurns = (gray: Raster): number => {
+  let mask = inkMask(gray);
+  let turns = 0;
+
+  if (isSideways(mask)) {
+    turns = 1;
+    mask = rotateQuarterTurns(mask, 1);
+  }
+  if (isUpsideDown(mask)) {
+    turns += 2;
+  }
+
+  return turns % 4;
+};
+
+// Projection-profile deskew: the correct angle gives the sharpest row histogram
+const estimateSkewAngle = (gray: Raster): number => {
+  const mask = inkMask(gray);
+  const points: number[] = [];
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.data[y * mask.width + x]) points.push(x - mask.width / 2, y - mask.height / 2);
+    }
+  }
+  if (points.length === 0) return 0;
+
+  // Sample at most 40k ink pixels
+  const stride = Math.max(1, Math.floor(points.length / 2 / 40000)) * 2;
+  const diagonal = Math.ceil(Math.hypot(mask.width, mask.height));
+
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const histogram = new Float64Array(diagonal + 1);
+    for (let i = 0; i < points.length; i += stride) {
+      const row = Math.round(points[i] * sin + points[i + 1] * cos + diagonal / 2);
+      if (row >= 0 && row <= diagonal) histogram[row]++;
+    }
+    let total = 0;
+    histogram.forEach(value => { total += value * value; });
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const current = score(angle);
+      if (current > bestScore) {
+        bestScore = current;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 1);
+  return Math.round(search(coarse - 1, coarse + 1, 0.1) * 10) / 10;
+};
+
+// Bradley-Roth adaptive threshold: each pixel is compared to its local neighbourhood mean
+const adaptiveThreshold = (gray: Raster): Raster => {
+  const { width, height } = gray;
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 1; y <= height; y++) {
+    let rowSum = 0;
+    for (let x = 1; x <= width; x++) {
+      rowSum += gray.data[(y - 1) * width + (x - 1)];
+      integral[y * (width + 1) + x] = integral[(y - 1) * (width + 1) + x] + rowSum;
+    }
+  }
+
+  const half = Math.max(7, Math.round(Math.max(width, height) / 32));
+  const sensitivity = 0.15;
+  const data = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half);
+    const y2 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half);
+      const x2 = Math.min(width, x + half + 1);
+      const count = (x2 - x1) * (y2 - y1);
+      const sum = integral[y2 * (width + 1) + x2] - integral[y1 * (width + 1) + x2]
+        - integral[y2 * (width + 1) + x1] + integral[y1 * (width + 1) + x1];
+      data[y * width + x] = gray.data[y * width + x] * count <= sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+
+  return { width, height, channels: 1, data };
+};
+
+// Run the enabled cleanup steps on raw pixels
+export const preprocessRaster = (
+  input: Raster,
+  options: PreprocessingOptions
+): { raster: Raster; report: PreprocessingReport } => {
+  const report: PreprocessingReport = { rotation: 0, skewAngle: 0, cropped: false };
+  let raster = input;
+
+  if (options.autoCrop) {
+    const { raster: small, scale } = downscale(toGray(raster), MAX_ANALYSIS_SIDE);
+    const bounds = findPaperBounds(small);
+    if (bounds) {
+      raster = crop(raster, {
+        x: Math.floor(bounds.x / scale),
+        y: Math.floor(bounds.y / scale),
+        width: Math.min(raster.width - Math.floor(bounds.x / scale), Math.ceil(bounds.width / scale)),
+        height: Math.min(raster.height - Math.floor(bounds.y / scale), Math.ceil(bounds.height / scale)),
+      });
+      report.cropped = true;
+    }
+  }
+
+  if (options.rotate) {
+    const turns = detectQuarterTurns(downscale(toGray(raster), MAX_ANALYSIS_SIDE).raster);
+    if (turns !== 0) {
+      raster = rotateQuarterTurns(raster, turns);
+      report.rotation = turns * 90;
+    }
+  }
+
+  if (options.deskew) {
+    const angle = estimateSkewAngle(downscale(toGray(raster), MAX_ANALYSIS_SIDE).raster);
+    if (Math.abs(angle) >= MIN_SKEW_DEGREES) {
+      raster = rotateByAngle(raster, angle);
+      report.skewAngle = angle;
+    }
+  }
+
+  if (options.grayscale || options.binarize) {
+    raster = toGray(raster);
+  }
+
+  if (options.binarize) {
+    raster = adaptiveThreshold(raster);
+  }
+
+  return { raster, report };
+};
+
+type WorkingCanvas = OffscreenCanvas | HTMLCanvasElement;
+type WorkingContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+// Workers only have OffscreenCanvas; fall back to a <canvas> on the main thread of older browsers
+const createWorkingCanvas = (width: number, height: number): { canvas: WorkingCanvas; context: WorkingContext } => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (context) return { canvas, context };
+  } else if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (context) return { canvas, context };
+  }
+  throw new Error('Canvas rendering is not supported in this browser');
+};
+
+const encodeCanvas = (canvas: WorkingCanvas, type: string, quality?: number): Promise<Blob | null> =>
+  'convertToBlob' in canvas
+    ? canvas.convertToBlob({ type, quality })
+    : new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+const loadRaster = async (image: Blob): Promise<Raster> => {
+  const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_WORKING_SIDE / Math.max(bitmap.width, bitmap.height));
+
+  let working: { canvas: WorkingCanvas; context: WorkingContext };
+  try {
+    working = createWorkingCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  } catch (error) {
+    bitmap.close();
+    throw error;
+  }
+
+  const { canvas, context } = working;
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+  return { width, height, channels: 4, data };
+};
+
+const toRgba = (gray: Uint8ClampedArray): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(gray.length * 4);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    rgba[p] = gray[i];
+    rgba[p + 1] = gray[i];
+    rgba[p + 2] = gray[i];
+    rgba[p + 3] = 255;
+  }
+  return rgba;
+};
+
+export const rasterToCanvas = (raster: Raster): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = raster.width;
+  canvas.height = raster.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not supported in this browser');
+  }
+
+  const imageData = context.createImageData(raster.width, raster.height);
+  imageData.data.set(raster.channels === 4 ? raster.data : toRgba(raster.data));
+  context.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// Encode raw pixels as a PNG; works in workers where there is no DOM canvas
+export const rasterToBlob = async (raster: Raster): Promise<Blob> => {
+  const { canvas, context } = createWorkingCanvas(raster.width, raster.height);
+  const imageData = context.createImageData(raster.width, raster.height);
+  imageData.data.set(raster.channels === 4 ? raster.data : toRgba(raster.data));
+  context.putImageData(imageData, 0, 0);
+
+  const blob = await encodeCanvas(canvas, 'image/png');
+  if (!blob) {
+    throw new Error('The image could not be encoded');
+  }
+  return blob;
+};
+
+export const canvasToObjectUrl = (canvas: HTMLCanvasElement) => new Promise<string | undefined>((resolve) => {
+  canvas.toBlob(blob => resolve(blob ? URL.createObjectURL(blob) : undefined), 'image/png');
+});
+
+export interface ImageResizeInfo {
+  originalWidth: number;
+  originalHeight: number;
+  originalSize: number;
+  width: number;
+  height: number;
+}
+
+// Re-encode a photo that is over the upload limit as a JPEG that fits, with EXIF rotation baked in
+export const downscaleImage = async (
+  image: Blob,
+  maxBytes: number
+): Promise<{ blob: Blob; resize: ImageResizeInfo }> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('This image could not be read. Please try a JPG or PNG photo.');
+  }
+
+  let working: { canvas: WorkingCanvas; context: WorkingContext };
+  try {
+    working = createWorkingCanvas(bitmap.width, bitmap.height);
+  } catch (error) {
+    bitmap.close();
+    throw error;
+  }
+  const { canvas, context } = working;
+
+  // Start at the OCR working size and only trade quality, then resolution, if the file is still too big
+  let side = Math.min(MAX_WORKING_SIDE, Math.max(bitmap.width, bitmap.height));
+  let quality = 0.9;
+  let blob: Blob | null = null;
+
+  for (let attempt = 0; attempt < 6; attempt++) {
+    const scale = side / Math.max(bitmap.width, bitmap.height);
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    context.fillStyle = '#ffffff'; // JPEG has no alpha; keep transparent areas white like paper
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    blob = await encodeCanvas(canvas, 'image/jpeg', quality);
+    if (blob && blob.size <= maxBytes) break;
+
+    if (quality > 0.7) {
+      quality -= 0.1;
+    } else {
+      side = Math.round(side * 0.8);
+    }
+  }
+
+  const resize: ImageResizeInfo = {
+    originalWidth: bitmap.width,
+    originalHeight: bitmap.height,
+    originalSize: image.size,
+    width: canvas.width,
+    height: canvas.height
+  };
+  bitmap.close();
+
+  if (!blob || blob.size > maxBytes) {
+    throw new Error('This image is too large to process even after resizing.');
+  }
+
+  return { blob, resize };
+};
+
+// Decode an uploaded photo and run the enabled cleanup steps; safe to call inside a worker
+export const preprocessImage = async (
+  image: Blob,
+  options: PreprocessingOptions
+): Promise<{ raster: Raster; report: PreprocessingReport }> => preprocessRaster(await loadRaster(image), options);
@@ -0,0 +1,20 @@
+// Strip markdown syntax for copying a reply as plain text, keeping list markers and link targets
+export const markdownToPlainText = (markdown: string): string =>
+  markdown
+    // Fenced code blocks keep their contents
+    .replace(/^```[^\n]*\n([\s\S]*?)^```[ \t]*$/gm, '$1')
+    // Table separator rows, then cell pipes become tabs
+    .replace(/^\|?[ \t]*:?-{3,}:?[ \t]*(\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*$\n?/gm, '')
+    .replace(/^\|(.*)\|[ \t]*$/gm, (_, cells: string) => cells.split('|').map(cell => cell.trim()).join('\t'))
+    .replace(/^#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]*>[ \t]?/gm, '')
+    .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+    .replace(/^([ \t]*)[*+][ \t]+/gm, '$1- ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) => (label === url ? url : `${label} (${url})`))
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(?<![\w*])([*_])(?!\s)(.+?)(?<!\s)\1(?![\w*])/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
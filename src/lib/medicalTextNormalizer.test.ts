@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeOcrText } from './medicalTextNormalizer';
+import { OCR_CORPUS } from './__fixtures__/ocrCorpus';
+
+describe('normalizeOcrText', () => {
+  describe('OCR corpus', () => {
+    it.each(OCR_CORPUS)('$name', ({ raw, expected }) => {
+      expect(normalizeOcrText(raw)).toBe(expected);
+    });
+  });
+
+  it('keeps dose notation', () => {
+    expect(normalizeOcrText('500mg/5ml')).toBe('500mg/5mL');
+    expect(normalizeOcrText('1/2 tab')).toBe('1/2 tab');
+    expect(normalizeOcrText('0.1%')).toBe('0.1%');
+    expect(normalizeOcrText('½ tab')).toBe('½ tab');
+    expect(normalizeOcrText('Tab A + Tab B')).toBe('Tab A + Tab B');
+  });
+
+  it('fixes misread units and the digits before them', () => {
+    expect(normalizeOcrText('5OOrng')).toBe('500mg');
+    expect(normalizeOcrText('5 rnl')).toBe('5 mL');
+    expect(normalizeOcrText('25 mcq')).toBe('25 mcg');
+  });
+
+  it('fixes O and l read in place of digits', () => {
+    expect(normalizeOcrText('1OOO IU')).toBe('1000 IU');
+    expect(normalizeOcrText('l0 mg')).toBe('10 mg');
+    expect(normalizeOcrText('2O mg')).toBe('20 mg');
+    expect(normalizeOcrText('O.5 mg')).toBe('0.5 mg');
+  });
+
+  it('normalizes units', () => {
+    expect(normalizeOcrText('5 ml')).toBe('5 mL');
+    expect(normalizeOcrText('5 ML')).toBe('5 mL');
+    expect(normalizeOcrText('5 cc')).toBe('5 mL');
+    expect(normalizeOcrText('100 µg')).toBe('100 mcg');
+    expect(normalizeOcrText('40 i.u.')).toBe('40 IU');
+    expect(normalizeOcrText('2 gms')).toBe('2 g');
+  });
+
+  it('turns decimal commas in doses into points', () => {
+    expect(normalizeOcrText('0,5 mg')).toBe('0.5 mg');
+    expect(normalizeOcrText('2,5%')).toBe('2.5%');
+    expect(normalizeOcrText('1,000 tablets')).toBe('1,000 tablets');
+  });
+
+  it('leaves words made of digit look-alikes alone', () => {
+    expect(normalizeOcrText('Oil')).toBe('Oil');
+    expect(normalizeOcrText('Olive Oil 10 ml')).toBe('Olive Oil 10 mL');
+    expect(normalizeOcrText('Ill')).toBe('Ill');
+    expect(normalizeOcrText('Cool place')).toBe('Cool place');
+    expect(normalizeOcrText('mgmt plan')).toBe('mgmt plan');
+  });
+
+  it('keeps a volume in litres', () => {
+    expect(normalizeOcrText('ORS 1 L over the day')).toBe('ORS 1 L over the day');
+    expect(normalizeOcrText('10l')).toBe('10L');
+  });
+});
@@ -0,0 +1,109 @@
+// Cleans raw OCR output without destroying dose notation such as "500mg/5ml", "1/2 tab" or "0.1%"
+
+// Canonical spelling for units that follow a number, keyed by lower-case alias
+const UNIT_ALIASES: Record<string, string> = {
+  mg: 'mg',
+  mgs: 'mg',
+  mcg: 'mcg',
+  mcgs: 'mcg',
+  'µg': 'mcg',
+  'μg': 'mcg',
+  ug: 'mcg',
+  g: 'g',
+  gm: 'g',
+  gms: 'g',
+  kg: 'kg',
+  ml: 'mL',
+  mls: 'mL',
+  cc: 'mL',
+  l: 'L',
+  iu: 'IU',
+  'i.u.': 'IU',
+  u: 'units',
+  units: 'units',
+  meq: 'mEq',
+  mmol: 'mmol',
+};
+
+// Letter pairs OCR commonly produces in place of units; the number before may itself be misread ("5OOrng")
+const UNIT_CONFUSIONS: [RegExp, string][] = [
+  [/([0-9Oo]\s?)rng\b/gi, '$1mg'],
+  [/([0-9Oo]\s?)rnl\b/gi, '$1ml'],
+  [/([0-9Oo]\s?)rncg\b/gi, '$1mcg'],
+  [/([0-9Oo]\s?)mcq\b/gi, '$1mcg'],
+  [/([0-9Oo]\s?)rnEq\b/gi, '$1mEq'],
+];
+
+// Letters Tesseract confuses with digits; only replaced inside number-like tokens
+const DIGIT_CONFUSIONS: Record<string, string> = {
+  O: '0',
+  o: '0',
+  I: '1',
+  l: '1',
+  '|': '1',
+};
+
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .map(alias => alias.replace(/\./g, '\\.'))
+  .join('|');
+
+// A digit, optional space, then a known unit that isn't the start of a longer word
+const NUMBER_WITH_UNIT = new RegExp(`(\\d)(\\s?)(${UNIT_PATTERN})(?![\\p{L}\\p{N}])`, 'giu');
+
+// Runs of digits and digit look-alikes that stand on their own or sit right before a unit
+const NUMBER_LIKE_TOKEN = new RegExp(
+  `(?<![\\p{L}\\p{N}])([0-9OoIl|][0-9OoIl|.,]*)(?=\\s?(?:${UNIT_PATTERN})(?![\\p{L}\\p{N}])|[^\\p{L}\\p{N}]|$)`,
+  'gu'
+);
+
+// Everything OCR emits that isn't a letter, digit, mark, whitespace or dose punctuation is noise
+const NOISE_CHARACTERS = /[^\p{L}\p{M}\p{N}\s\-.,;:()[\]/%+µμ½¼¾⅓⅔×°'"&@#*=<>|]/gu;
+
+const UNIT_OR_PERCENT_AHEAD = new RegExp(`^\\s?(?:${UNIT_PATTERN}|%)(?![\\p{L}\\p{N}])`, 'iu');
+
+const fixDigitConfusions = (text: string) =>
+  text.replace(NUMBER_LIKE_TOKEN, (token: string, _group: string, offset: number) => {
+    // A token led by a real digit is a number ("1OOO"), as is one right before a unit ("O.O5%");
+    // otherwise digits must dominate so words like "Oil" survive
+    const digits = token.replace(/[^0-9]/g, '').length;
+    const lookAlikes = token.replace(/[0-9.,]/g, '').length;
+    if (digits === 0 || lookAlikes === 0) return token;
+    const beforeUnit = UNIT_OR_PERCENT_AHEAD.test(text.slice(offset + token.length));
+    if (!/^[0-9]/.test(token) && !beforeUnit && lookAlikes > digits) return token;
+    // "10l" is a volume in litres, not "101"
+    if (/^[0-9.,]+l$/.test(token)) return token;
+
+    return token.replace(/[OoIl|]/g, character => DIGIT_CONFUSIONS[character]);
+  });
+
+const fixUnitConfusions = (text: string) =>
+  UNIT_CONFUSIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+const normalizeUnits = (text: string) =>
+  text
+    // Decimal commas in doses: "0,5 mg" -> "0.5 mg"
+    .replace(new RegExp(`(\\d),(\\d{1,2})(?=\\s?(?:${UNIT_PATTERN}|%)(?![\\p{L}\\p{N}]))`, 'giu'), '$1.$2')
+    .replace(NUMBER_WITH_UNIT, (_match, digit: string, space: string, unit: string) =>
+      `${digit}${space}${UNIT_ALIASES[unit.toLowerCase()] ?? unit}`)
+    // "0.1 %" -> "0.1%"
+    .replace(/(\d)\s+%/g, '$1%');
+
+export const normalizeOcrText = (text: string): string => {
+  const cleaned = text
+    .normalize('NFC')
+    .replace(/[‐‑‒–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(NOISE_CHARACTERS, '');
+
+  const normalized = normalizeUnits(fixDigitConfusions(fixUnitConfusions(cleaned)))
+    // Stray pipes left after digit fixes are column rules or misread letters
+    .replace(/\|/g, '');
+
+  return normalized
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+};
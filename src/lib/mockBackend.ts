@@ -0,0 +1,94 @@
+import type { ChatBackend, ChatBackendRequest, ChatSendOptions } from './chatBackend';
+import { wait } from './chatRetry';
+import { CHAT_RESPONSE_VERSION, ChatResponse, MedicineBlock } from './chatResponse';
+
+// Long enough to see the loading state, then a word at a time like a streamed reply
+const MOCK_DELAY_MS = 600;
+const MOCK_WORD_DELAY_MS = 30;
+// Fixed so mock replies are the same every run
+const MOCK_RETRIEVED_AT = '2025-09-21';
+
+const describeRequest = ({ message, attachment, prescription }: ChatBackendRequest): string[] => {
+  const medicines = prescription?.medicines ?? [];
+  if (medicines.length > 0) {
+    return [
+      `**Medicines found:** ${medicines.length}`,
+      ...medicines.map(medicine => {
+        const name = [medicine.name, medicine.strength].filter(Boolean).join(' ') || 'Unnamed medicine';
+        const schedule = [medicine.frequency, medicine.duration && `for ${medicine.duration}`].filter(Boolean).join(' ');
+        return `- ${name}${schedule ? ` — ${schedule}` : ''}`;
+      }),
+      prescription?.patient ? `\nPrepared for ${prescription.patient}.` : '',
+    ].filter(Boolean);
+  }
+
+  if (attachment === 'image') {
+    const words = message.split(/\s+/).filter(Boolean).length;
+    return [`Received a document of ${words} words. No medicines were recognised in it.`];
+  }
+
+  const question = message.length > 200 ? `${message.slice(0, 200)}...` : message;
+  return [`You asked: "${question}"`];
+};
+
+// One card per prescribed medicine, or for the searched name, so the card layout can be tried without a real service
+const describeMedicines = ({ prescription, context, message }: ChatBackendRequest): MedicineBlock[] => {
+  const placeholder = {
+    uses: ['Mock data: what this medicine is usually prescribed for'],
+    side_effects: ['Mock data: common side effects'],
+    contraindications: ['Mock data: who should not take it'],
+    interactions: ['Mock data: medicines and foods to avoid with it'],
+    storage: ['Mock data: how to store it']
+  };
+
+  const medicines = prescription?.medicines ?? [];
+  if (medicines.length === 0) {
+    const name = message.trim().split('\n')[0].slice(0, 60);
+    return context === 'medicine-search' && name ? [{ type: 'medicine', name, dosage: '1-0-1 after food', ...placeholder }] : [];
+  }
+
+  return medicines.map(medicine => ({
+    type: 'medicine',
+    name: [medicine.name, medicine.strength].filter(Boolean).join(' ') || 'Unnamed medicine',
+    dosage: [medicine.frequency, medicine.duration && `for ${medicine.duration}`].filter(Boolean).join(' ') || undefined,
+    ...placeholder
+  }));
+};
+
+// Canned, deterministic replies so the app can be developed and demoed without any AI service
+const send = async (request: ChatBackendRequest, { onText, signal }: ChatSendOptions = {}): Promise<ChatResponse> => {
+  await wait(MOCK_DELAY_MS, signal);
+  const reply = [
+    '**Mock analysis** (VITE_CHAT_BACKEND=mock)',
+    '',
+    ...describeRequest(request),
+    '',
+    `Context: ${request.context}, ${request.history.length} earlier message${request.history.length === 1 ? '' : 's'}${request.documentText ? ', with a document' : ''}.`
+  ].join('\n');
+
+  if (onText) {
+    const words = reply.split(/(?<=\s)/);
+    for (let count = 1; count <= words.length; count++) {
+      onText(words.slice(0, count).join(''));
+      await wait(MOCK_WORD_DELAY_MS, signal);
+    }
+  }
+
+  return {
+    version: CHAT_RESPONSE_VERSION,
+    blocks: [
+      { type: 'text', text: reply },
+      ...describeMedicines(request),
+      { type: 'warning', severity: 'info', text: 'This is a placeholder reply. Set VITE_CHAT_BACKEND to "n8n" or "openai" for real answers.' }
+    ],
+    citations: [{
+      title: 'MediLens mock backend',
+      publisher: 'MediLens',
+      identifier: 'src/lib/mockBackend.ts',
+      retrieved_at: MOCK_RETRIEVED_AT
+    }],
+    follow_ups: ['What are the common side effects?', 'Can I take these with food?']
+  };
+};
+
+export const mockBackend: ChatBackend = { name: 'mock', send };
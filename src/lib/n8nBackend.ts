@@ -0,0 +1,123 @@
+import type { ChatBackend, ChatBackendRequest, ChatSendOptions } from './chatBackend';
+import { isStreamingResponse, readStreamEvents } from './streaming';
+import { ChatBackendError, isRetryableStatus } from './chatRetry';
+import {
+  CHAT_RESPONSE_VERSION,
+  ChatResponse,
+  InvalidChatResponseError,
+  assertTextResponseVersion,
+  parseChatResponse,
+  parseTextResponse
+} from './chatResponse';
+
+// Webhook payload format; bumped whenever fields change so workflows can tell old and new clients apart.
+// Version 1 was { message, attachment, sessionid } with no version field.
+const PAYLOAD_VERSION = 2;
+
+// Workflows with streaming enabled send {"type":"item","content":"..."} lines; plain text chunks are used as they are
+const streamChunkText = (data: string): string => {
+  let chunk: unknown;
+  try {
+    chunk = JSON.parse(data);
+  } catch {
+    return data;
+  }
+
+  if (typeof chunk === 'string') return chunk;
+  if (typeof chunk !== 'object' || chunk === null) return '';
+
+  const { type, content } = chunk as { type?: string; content?: unknown };
+  if (type === 'error') {
+    throw new Error(typeof content === 'string' ? content : 'The workflow reported an error while streaming');
+  }
+  return typeof content === 'string' ? content : '';
+};
+
+// Posts to the n8n workflow; history is included so workflows without their own memory can follow up too
+const send = async (
+  { message, attachment, sessionId, context, history, documentText, corrections, prescription }: ChatBackendRequest,
+  { onText, signal }: ChatSendOptions = {}
+): Promise<ChatResponse> => {
+  const webhookUrl = import.meta.env.VITE_N8N_WEBHOOK_URL;
+
+  if (!webhookUrl) {
+    throw new Error('N8N webhook URL not configured. Please set VITE_N8N_WEBHOOK_URL in your .env file.');
+  }
+
+  // Only the URL and status are logged: the payload and reply carry document text and chat history
+  console.log('🚀 Sending request to webhook:', webhookUrl);
+
+  const payload = {
+    version: PAYLOAD_VERSION,
+    // Reply format the app expects back; see chatResponse.ts
+    response_version: CHAT_RESPONSE_VERSION,
+    message,
+    attachment,
+    sessionid: sessionId || 'unknown',
+    context,
+    history,
+    ...(documentText && { document_text: documentText }),
+    // Words the user corrected while reviewing the OCR result
+    ...(corrections && corrections.length > 0 && { ocr_corrections: corrections }),
+    // Structured prescription as reviewed in the upload modal
+    ...(prescription && { prescription })
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/x-ndjson, text/event-stream, application/json',
+        'User-Agent': 'MediLens-Chatbot/1.0',
+      },
+      body: JSON.stringify(payload),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('🌐 Network error detected - check webhook URL and connectivity', error);
+    throw new ChatBackendError('Network error: Unable to connect to the n8n webhook. Please verify the webhook URL is correct and accessible.', true);
+  }
+
+  console.log('📥 Response status:', response.status);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('❌ Error response:', errorText);
+    throw new ChatBackendError(`HTTP error! status: ${response.status} - ${errorText}`, isRetryableStatus(response.status));
+  }
+
+  const contentType = response.headers.get('content-type');
+
+  if (isStreamingResponse(response)) {
+    // Checked before any text is shown, so an unversioned stream never reaches the chat
+    assertTextResponseVersion(contentType);
+    let streamed = '';
+    await readStreamEvents(response, data => {
+      const text = streamChunkText(data);
+      if (!text) return;
+      streamed += text;
+      onText?.(streamed);
+    });
+    return parseTextResponse(streamed, contentType);
+  }
+
+  const responseText = await response.text();
+
+  let data;
+  try {
+    data = JSON.parse(responseText);
+  } catch (parseError) {
+    if (!/^text\/plain\b/i.test(contentType || '')) {
+      console.error('⚠️ Failed to parse JSON response:', parseError);
+      throw new InvalidChatResponseError(['the reply is not valid JSON']);
+    }
+    return parseTextResponse(responseText, contentType);
+  }
+
+  return parseChatResponse(data);
+};
+
+export const n8nBackend: ChatBackend = { name: 'n8n', send };
@@ -0,0 +1,317 @@
+import { createWorker, OEM, Page, Worker } from 'tesseract.js';
+import { normalizeOcrText } from './medicalTextNormalizer';
+
+type OcrImage = File | Blob | HTMLCanvasElement;
+
+export interface OcrLanguage {
+  code: string;
+  label: string;
+  script: string;
+}
+
+// Tesseract traineddata available in the upload tab, with the OSD script that selects each one
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'eng', label: 'English', script: 'Latin' },
+  { code: 'hin', label: 'Hindi', script: 'Devanagari' },
+  { code: 'mar', label: 'Marathi', script: 'Devanagari' },
+  { code: 'ben', label: 'Bengali', script: 'Bengali' },
+  { code: 'tam', label: 'Tamil', script: 'Tamil' },
+  { code: 'tel', label: 'Telugu', script: 'Telugu' },
+  { code: 'kan', label: 'Kannada', script: 'Kannada' },
+  { code: 'mal', label: 'Malayalam', script: 'Malayalam' },
+  { code: 'guj', label: 'Gujarati', script: 'Gujarati' },
+  { code: 'pan', label: 'Punjabi', script: 'Gurmukhi' },
+  { code: 'ori', label: 'Odia', script: 'Oriya' },
+  { code: 'urd', label: 'Urdu', script: 'Arabic' },
+];
+
+export const DEFAULT_OCR_LANGUAGE = 'eng';
+
+// Pass as the language to detect the script before recognition
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export interface OcrJobOptions {
+  language?: string;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+  line: number;
+  corrected?: string;
+}
+
+export interface OcrResult {
+  text: string;
+  language: string;
+  words: OcrWord[];
+}
+
+interface OcrJob extends OcrJobOptions {
+  image: OcrImage;
+  language: string;
+  resolve: (page: Page) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PooledWorker {
+  language: string;
+  ready: Promise<Worker>;
+  worker: Worker | null;
+  job: OcrJob | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Keep at most two engines warm; each one holds its own copy of the language data
+const MAX_WORKERS = Math.max(1, Math.min(2, (navigator.hardwareConcurrency || 2) - 1));
+
+// Idle workers are shut down after this long to free memory
+const WORKER_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+const pool: PooledWorker[] = [];
+const queue: OcrJob[] = [];
+
+const createAbortError = () => new DOMException('OCR job was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Rebuild page text from recognized words, using the user's corrections where present
+export const wordsToText = (words: OcrWord[]): string => {
+  const lines: string[][] = [];
+  words.forEach(word => {
+    const text = word.corrected ?? word.text;
+    if (!text) return;
+    (lines[word.line] ||= []).push(text);
+  });
+  return normalizeOcrText(lines.filter(Boolean).map(line => line.join(' ')).join('\n'));
+};
+
+const collectWords = (page: Page): OcrWord[] => {
+  const words: OcrWord[] = [];
+  let line = 0;
+
+  page.blocks?.forEach(block => {
+    block.paragraphs.forEach(paragraph => {
+      paragraph.lines.forEach(ocrLine => {
+        ocrLine.words.forEach(word => {
+          words.push({
+            text: word.text,
+            confidence: Math.round(word.confidence),
+            bbox: { ...word.bbox },
+            line
+          });
+        });
+        line++;
+      });
+    });
+  });
+
+  return words;
+};
+
+const removeWorker = (pooled: PooledWorker) => {
+  const index = pool.indexOf(pooled);
+  if (index !== -1) pool.splice(index, 1);
+  if (pooled.idleTimer) clearTimeout(pooled.idleTimer);
+
+  pooled.ready
+    .then(worker => worker.terminate())
+    .catch(error => console.error('Error terminating OCR worker:', error));
+};
+
+const scheduleIdleShutdown = (pooled: PooledWorker) => {
+  if (pooled.idleTimer) clearTimeout(pooled.idleTimer);
+  pooled.idleTimer = setTimeout(() => {
+    if (!pooled.job) removeWorker(pooled);
+  }, WORKER_IDLE_TIMEOUT);
+};
+
+const spawnWorker = (language: string): PooledWorker => {
+  const ready = createWorker(language.split('+'), undefined, {
+    logger: (message) => {
+      if (message.status === 'recognizing text') {
+        pooled.job?.onProgress?.(message.progress);
+      }
+    }
+  });
+  const pooled: PooledWorker = { language, ready, worker: null, job: null, idleTimer: null };
+
+  ready
+    .then(worker => {
+      // The pool may have been torn down while the engine was loading
+      if (!pool.includes(pooled)) return;
+      pooled.worker = worker;
+      scheduleIdleShutdown(pooled);
+      dispatch();
+    })
+    .catch(error => {
+      console.error('Error starting OCR worker:', error);
+      const index = pool.indexOf(pooled);
+      if (index !== -1) pool.splice(index, 1);
+      // Fail the queued jobs for this language rather than leaving them waiting forever
+      if (!pool.some(other => other.language === language)) {
+        queue
+          .filter(job => job.language === language)
+          .forEach(job => {
+            queue.splice(queue.indexOf(job), 1);
+            job.reject(error);
+          });
+      }
+    });
+
+  pool.push(pooled);
+  return pooled;
+};
+
+const runJob = async (pooled: PooledWorker, job: OcrJob) => {
+  pooled.job = job;
+  if (pooled.idleTimer) clearTimeout(pooled.idleTimer);
+
+  try {
+    const { data } = await pooled.worker!.recognize(job.image, {}, { text: true, blocks: true });
+    if (pooled.job === job) job.resolve(data);
+  } catch (error) {
+    if (pooled.job === job) job.reject(error);
+  } finally {
+    if (pooled.job === job) {
+      pooled.job = null;
+      scheduleIdleShutdown(pooled);
+      dispatch();
+    }
+  }
+};
+
+const dispatch = () => {
+  for (const job of [...queue]) {
+    const idle = pool.find(pooled => pooled.worker && !pooled.job && pooled.language === job.language);
+    if (idle) {
+      queue.splice(queue.indexOf(job), 1);
+      runJob(idle, job);
+      continue;
+    }
+
+    const starting = pool.some(pooled => !pooled.worker && pooled.language === job.language);
+    if (starting) continue;
+
+    // Make room by retiring an idle worker loaded with a different language
+    if (pool.length >= MAX_WORKERS) {
+      const retired = pool.find(pooled => pooled.worker && !pooled.job);
+      if (!retired) return;
+      removeWorker(retired);
+    }
+    spawnWorker(job.language);
+  }
+};
+
+const cancelJob = (job: OcrJob) => {
+  const queuedIndex = queue.indexOf(job);
+  if (queuedIndex !== -1) {
+    queue.splice(queuedIndex, 1);
+    job.reject(createAbortError());
+    return;
+  }
+
+  // Tesseract cannot stop a recognition midway, so the busy worker is replaced
+  const busy = pool.find(pooled => pooled.job === job);
+  if (busy) {
+    busy.job = null;
+    removeWorker(busy);
+    job.reject(createAbortError());
+    dispatch();
+  }
+};
+
+let osdWorker: Promise<Worker> | null = null;
+
+// Orientation and script detection needs the legacy engine and its own traineddata
+const getOsdWorker = () => {
+  if (!osdWorker) {
+    osdWorker = createWorker('osd', OEM.TESSERACT_ONLY, { legacyCore: true, legacyLang: true });
+    osdWorker.catch(() => {
+      osdWorker = null;
+    });
+  }
+  return osdWorker;
+};
+
+// Pick traineddata for the dominant script; English is always kept for drug names and units
+export const detectLanguage = async (image: OcrImage): Promise<string> => {
+  try {
+    const worker = await getOsdWorker();
+    const { data } = await worker.detect(image);
+    const match = OCR_LANGUAGES.find(language => language.script === data.script);
+
+    if (!match || match.code === DEFAULT_OCR_LANGUAGE) {
+      return DEFAULT_OCR_LANGUAGE;
+    }
+    return `${DEFAULT_OCR_LANGUAGE}+${match.code}`;
+  } catch (error) {
+    console.error('Error detecting script, falling back to English:', error);
+    return DEFAULT_OCR_LANGUAGE;
+  }
+};
+
+const queueRecognition = (image: OcrImage, language: string, options: OcrJobOptions): Promise<Page> => {
+  const { signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<Page>((resolve, reject) => {
+    const job: OcrJob = { ...options, image, language, resolve, reject };
+
+    if (signal) {
+      const onAbort = () => cancelJob(job);
+      signal.addEventListener('abort', onAbort, { once: true });
+      job.resolve = (page) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(page);
+      };
+      job.reject = (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      };
+    }
+
+    queue.push(job);
+    dispatch();
+  });
+};
+
+// Queue an image for OCR on a warm worker and resolve with the cleaned text
+export const recognizeImage = async (image: OcrImage, options: OcrJobOptions = {}): Promise<OcrResult> => {
+  let language = options.language || DEFAULT_OCR_LANGUAGE;
+  if (language === AUTO_DETECT_LANGUAGE) {
+    language = await detectLanguage(image);
+    options.signal?.throwIfAborted();
+  }
+
+  const page = await queueRecognition(image, language, options);
+  const words = collectWords(page);
+  const text = words.length > 0 ? wordsToText(words) : normalizeOcrText(page.text);
+  return { text, language, words };
+};
+
+// Start a worker ahead of time so the first upload doesn't wait for the engine to load
+export const prewarmOcr = (language = DEFAULT_OCR_LANGUAGE) => {
+  if (language !== AUTO_DETECT_LANGUAGE && pool.length === 0) {
+    spawnWorker(language);
+  }
+};
+
+// Stop every worker and cancel queued jobs, e.g. on logout
+export const terminateOcrWorkers = () => {
+  osdWorker?.then(worker => worker.terminate()).catch(() => undefined);
+  osdWorker = null;
+  queue.splice(0).forEach(job => job.reject(createAbortError()));
+  [...pool].forEach(pooled => {
+    const job = pooled.job;
+    pooled.job = null;
+    removeWorker(pooled);
+    job?.reject(createAbortError());
+  });
+};
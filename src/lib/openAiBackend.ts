@@ -0,0 +1,110 @@
+import type { ChatBackend, ChatBackendRequest, ChatSendOptions } from './chatBackend';
+import { isStreamingResponse, readStreamEvents } from './streaming';
+import { ChatBackendError, isRetryableStatus } from './chatRetry';
+import { ChatResponse, textResponse } from './chatResponse';
+
+const SYSTEM_PROMPT = [
+  'You are MediLens, an assistant that explains prescriptions, medicines and medical reports in plain language.',
+  'For each medicine explain what it is usually used for, how and when to take it, common side effects and important precautions.',
+  'Placeholders such as [PATIENT_NAME_1] stand for personal details that were hidden; repeat them exactly as written.',
+  'Do not diagnose. Remind the user to follow their doctor\'s instructions and to ask a pharmacist or doctor when unsure.',
+].join('\n');
+
+const CONTEXT_PROMPTS: Record<string, string> = {
+  upload: 'The user is asking about a prescription or medical document they uploaded.',
+  'medicine-search': 'The user is looking up information about specific medicines.',
+  question: 'The user is asking general health and medication questions.',
+};
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+// Earlier turns go in as chat messages; the reviewed prescription and OCR fixes go alongside the latest text
+const buildUserMessage = ({ message, attachment, documentText, corrections, prescription }: ChatBackendRequest): string => {
+  const parts = attachment === 'image'
+    ? [`Text extracted from an uploaded document:\n${message}`]
+    : [...(documentText ? [`Document under discussion:\n${documentText}`] : []), message];
+
+  if (prescription) {
+    parts.push(`Prescription details as reviewed by the user:\n${JSON.stringify(prescription, null, 2)}`);
+  }
+  if (corrections && corrections.length > 0) {
+    parts.push(`Words the user corrected in the OCR result:\n${corrections
+      .map(correction => `- "${correction.original}" → "${correction.corrected}"`)
+      .join('\n')}`);
+  }
+
+  return parts.join('\n\n');
+};
+
+// Any server exposing POST /chat/completions: OpenAI, Ollama, LM Studio, vLLM, llama.cpp
+const send = async (request: ChatBackendRequest, { onText, signal }: ChatSendOptions = {}): Promise<ChatResponse> => {
+  const baseUrl = import.meta.env.VITE_OPENAI_BASE_URL;
+  const model = import.meta.env.VITE_OPENAI_MODEL;
+  const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
+
+  if (!baseUrl || !model) {
+    throw new Error('OpenAI-compatible backend not configured. Please set VITE_OPENAI_BASE_URL and VITE_OPENAI_MODEL in your .env file.');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        stream: true,
+        messages: [
+          { role: 'system', content: [SYSTEM_PROMPT, CONTEXT_PROMPTS[request.context]].filter(Boolean).join('\n') },
+          ...request.history,
+          { role: 'user', content: buildUserMessage(request) }
+        ]
+      }),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('🌐 Network error detected - check VITE_OPENAI_BASE_URL and that the server allows this origin', error);
+    throw new ChatBackendError(`Network error: Unable to reach the model server at ${baseUrl}.`, true);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('❌ Error response:', errorText);
+    throw new ChatBackendError(`HTTP error! status: ${response.status} - ${errorText}`, isRetryableStatus(response.status));
+  }
+
+  // Servers that ignore `stream` answer with a single JSON body instead
+  let content: string | undefined;
+  if (isStreamingResponse(response)) {
+    let streamed = '';
+    await readStreamEvents(response, data => {
+      if (data === '[DONE]') return;
+      const delta = (JSON.parse(data) as ChatCompletionChunk).choices?.[0]?.delta?.content;
+      if (!delta) return;
+      streamed += delta;
+      onText?.(streamed);
+    });
+    content = streamed.trim();
+  } else {
+    const data = await response.json() as ChatCompletionResponse;
+    content = data.choices?.[0]?.message?.content?.trim();
+  }
+
+  if (!content) {
+    throw new Error('The model returned an empty response.');
+  }
+  return textResponse(content);
+};
+
+export const openAiBackend: ChatBackend = { name: 'openai', send };
@@ -0,0 +1,99 @@
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import type { PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { recognizeImage } from './ocrService';
+import { ExtractedPage } from './documentText';
+import { canvasToObjectUrl } from './imagePreprocessing';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Pages with less text than this are treated as scanned images
+const MIN_TEXT_LAYER_LENGTH = 20;
+
+// Render scale used when a page has to go through OCR (~144 DPI)
+const OCR_RENDER_SCALE = 2;
+
+const readTextLayer = async (page: PDFPageProxy): Promise<string> => {
+  const content = await page.getTextContent();
+  let text = '';
+
+  content.items.forEach(item => {
+    if (!('str' in item)) return;
+    const textItem = item as TextItem;
+    text += textItem.str;
+    text += textItem.hasEOL ? '\n' : ' ';
+  });
+
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n\s*\n/g, '\n')
+    .trim();
+};
+
+// Main-thread work: pdf.js needs a DOM canvas and the document's fonts to draw a page
+const renderPageToCanvas = async (page: PDFPageProxy): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not supported in this browser');
+  }
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+interface PdfExtractionOptions {
+  onProgress?: (progress: number, pageNumber: number, totalPages: number) => void;
+  signal?: AbortSignal;
+  language?: string;
+}
+
+// Extract text page by page, falling back to OCR for pages without a text layer
+export const extractPdfPages = async (
+  file: File,
+  { onProgress, signal, language }: PdfExtractionOptions = {}
+): Promise<ExtractedPage[]> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await getDocument({ data }).promise;
+  const pages: ExtractedPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      const reportProgress = (pageProgress: number) => {
+        onProgress?.((pageNumber - 1 + pageProgress) / pdf.numPages, pageNumber, pdf.numPages);
+      };
+      reportProgress(0);
+      const page = await pdf.getPage(pageNumber);
+
+      const layerText = await readTextLayer(page);
+      if (layerText.length >= MIN_TEXT_LAYER_LENGTH) {
+        pages.push({ pageNumber, text: layerText, source: 'text-layer' });
+      } else {
+        const canvas = await renderPageToCanvas(page);
+        const result = await recognizeImage(canvas, { onProgress: reportProgress, signal, language });
+        // Keep the rendered page so OCR'd words can be reviewed against it
+        const imageUrl = await canvasToObjectUrl(canvas);
+        pages.push({
+          pageNumber,
+          text: result.text,
+          source: 'ocr',
+          language: result.language,
+          words: result.words,
+          image: imageUrl ? { url: imageUrl, width: canvas.width, height: canvas.height } : undefined
+        });
+      }
+
+      page.cleanup();
+      reportProgress(1);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
@@ -0,0 +1,214 @@
+import type { Prescription } from './prescriptionParser';
+
+export type PiiCategory = 'patient_name' | 'phone' | 'email' | 'address' | 'id_number' | 'date_of_birth';
+
+// One identifier found in the text; repeated occurrences share a placeholder
+export interface PiiFinding {
+  key: string;
+  category: PiiCategory;
+  value: string;
+  placeholder: string;
+  count: number;
+}
+
+// Placeholder sent to the analysis service → the original value it stands for
+export type RedactionMap = Record<string, string>;
+
+export const PII_CATEGORY_LABELS: Record<PiiCategory, string> = {
+  patient_name: 'Patient name',
+  phone: 'Phone number',
+  email: 'Email',
+  address: 'Address',
+  id_number: 'ID number',
+  date_of_birth: 'Date of birth',
+};
+
+const PLACEHOLDER_PREFIXES: Record<PiiCategory, string> = {
+  patient_name: 'PATIENT_NAME',
+  phone: 'PHONE',
+  email: 'EMAIL',
+  address: 'ADDRESS',
+  id_number: 'ID_NUMBER',
+  date_of_birth: 'DATE_OF_BIRTH',
+};
+
+interface Span {
+  start: number;
+  end: number;
+  category: PiiCategory;
+}
+
+interface Rule {
+  category: PiiCategory;
+  pattern: RegExp;
+  // Capture group holding the identifier; the whole match when omitted
+  group?: number;
+  accept?: (value: string) => boolean;
+}
+
+// Labels that start a new field on the same line, e.g. "Name: Anil Kumar  Age: 45"
+const NEXT_FIELD = /\s{2,}|\s*[|,;/(]|\s+(?=(?:age|sex|gender|date|dob|d\.o\.b|ph|phone|mob|mobile|tel|uhid|mrn|ip|op|reg|id|address|addr|wt|weight|ht|height)\b)/i;
+
+const HONORIFIC = /^(?:mr|mrs|ms|miss|master|baby|smt|shri|sri|kum)\.?\s+/i;
+
+const looksLikeName = (value: string) =>
+  /^[\p{L}][\p{L}.' -]*$/u.test(value) && value.split(/\s+/).length <= 5 && value.replace(/[^\p{L}]/gu, '').length >= 2;
+
+const DATE = String.raw`\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{1,2}\s+[A-Za-z]{3,9}\.?,?\s+\d{4}`;
+
+// Order matters: earlier rules win where matches overlap, so specific IDs are claimed before phone numbers
+const RULES: Rule[] = [
+  { category: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  {
+    category: 'date_of_birth',
+    pattern: new RegExp(String.raw`\b(?:dob|d\.o\.b\.?|date\s+of\s+birth)\s*[:.-]?\s*(${DATE})`, 'gi'),
+    group: 1
+  },
+  {
+    category: 'id_number',
+    pattern: /\b(?:uhid|mrn|mr\.?\s*no|reg(?:istration)?\.?\s*no|ip\s*no|op\s*no|patient\s*id|hospital\s*no|abha(?:\s*(?:no|number|id))?|aadhaa?r(?:\s*no)?|id\s*no)\.?\s*[:#.-]?\s*([A-Z0-9](?:[A-Z0-9/-]|\s(?=\d))*[A-Z0-9])/gi,
+    group: 1,
+    accept: value => /\d/.test(value) && value.length >= 4
+  },
+  // ABHA health ID, Aadhaar and PAN numbers without a label
+  { category: 'id_number', pattern: /(?<!\d)\d{2}-\d{4}-\d{4}-\d{4}(?!\d)/g },
+  { category: 'id_number', pattern: /(?<![\d-])[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}(?![\d-])/g },
+  { category: 'id_number', pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g },
+  {
+    category: 'phone',
+    pattern: /\b(?:ph|phone|mob|mobile|tel|contact|cell)\.?\s*(?:no\.?)?\s*[:.-]?\s*(\+?\d[\d\s-]{6,}\d)/gi,
+    group: 1
+  },
+  { category: 'phone', pattern: /(?<![\d-])(?:\+?91[\s-]?|0)?[6-9]\d{2}[\s-]?\d{3}[\s-]?\d{4}(?![\d-])/g },
+  { category: 'phone', pattern: /(?<![\w-])\+\d{1,3}[\s-]?\d[\d\s-]{7,}\d(?![\d-])/g },
+  {
+    category: 'address',
+    pattern: /\b(?:address|addr\.?|residence|r\/o)\s*[:.-]\s*([^\n]*[^\n,](?:,[ \t]*\n[^\n]*[^\n,])*)/gi,
+    group: 1
+  },
+  { category: 'address', pattern: /\b(?:pin(?:\s*code)?|pincode)\s*[:.-]?\s*(\d{3}\s?\d{3})\b/gi, group: 1 },
+  {
+    category: 'patient_name',
+    pattern: /^[ \t]*(?:patient(?:'s)?\s*name|patient|pt\.?|name)\s*[:.-]\s*([^\n]+)/gim,
+    group: 1
+  },
+  {
+    category: 'patient_name',
+    pattern: /\b(?:Mr|Mrs|Ms|Miss|Master|Smt|Shri)\.?\s+((?:[A-Z][\p{L}']+\s?){1,3})/gu,
+    group: 1
+  },
+];
+
+// Trim a labelled value to the identifier itself
+const cleanValue = (category: PiiCategory, raw: string): string => {
+  let value = raw;
+  if (category === 'patient_name') {
+    value = value.split(NEXT_FIELD)[0].replace(HONORIFIC, '');
+  }
+  return value.replace(/[\s,.:;-]+$/, '').trim();
+};
+
+const normalizeValue = (value: string) => value.toLowerCase().replace(/\s+/g, ' ');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Match a value as a whole word wherever it appears, tolerating different spacing and line breaks
+const valuePattern = (value: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${value.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{N}])`, 'giu');
+
+const collectSpans = (text: string, prescription?: Prescription | null): { span: Span; value: string }[] => {
+  const found: { span: Span; value: string }[] = [];
+  const overlaps = (start: number, end: number) =>
+    found.some(({ span }) => start < span.end && end > span.start);
+
+  const add = (category: PiiCategory, start: number, value: string) => {
+    const end = start + value.length;
+    if (value.length < 2 || overlaps(start, end)) return;
+    found.push({ span: { start, end, category }, value });
+  };
+
+  RULES.forEach(rule => {
+    for (const match of text.matchAll(rule.pattern)) {
+      const raw = rule.group ? match[rule.group] : match[0];
+      if (!raw || match.index === undefined) continue;
+
+      const value = cleanValue(rule.category, raw);
+      if (!value || (rule.accept && !rule.accept(value))) continue;
+      if (rule.category === 'patient_name' && !looksLikeName(value)) continue;
+
+      const offset = match.index + (rule.group ? match[0].indexOf(raw) : 0) + raw.indexOf(value);
+      add(rule.category, offset, value);
+    }
+  });
+
+  // The parsed patient field catches layouts the label rules miss
+  const names = new Set(found.filter(item => item.span.category === 'patient_name').map(item => item.value));
+  const parsedName = prescription?.patient ? cleanValue('patient_name', prescription.patient) : '';
+  if (parsedName && looksLikeName(parsedName)) names.add(parsedName);
+
+  // Names are redacted wherever else they appear, e.g. in a signature line
+  names.forEach(name => {
+    for (const match of text.matchAll(valuePattern(name))) {
+      if (match.index !== undefined) add('patient_name', match.index, match[0]);
+    }
+  });
+
+  return found.sort((a, b) => a.span.start - b.span.start);
+};
+
+// Find personal identifiers in extracted text, numbering placeholders in order of appearance
+export const detectPii = (text: string, prescription?: Prescription | null): PiiFinding[] => {
+  const findings = new Map<string, PiiFinding>();
+  const counters: Partial<Record<PiiCategory, number>> = {};
+
+  collectSpans(text, prescription).forEach(({ span, value }) => {
+    const key = `${span.category}:${normalizeValue(value)}`;
+    const existing = findings.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+
+    const index = (counters[span.category] ?? 0) + 1;
+    counters[span.category] = index;
+    findings.set(key, {
+      key,
+      category: span.category,
+      value: value.replace(/\s+/g, ' '),
+      placeholder: `[${PLACEHOLDER_PREFIXES[span.category]}_${index}]`,
+      count: 1
+    });
+  });
+
+  return Array.from(findings.values());
+};
+
+export const buildRedactionMap = (findings: PiiFinding[]): RedactionMap =>
+  Object.fromEntries(findings.map(finding => [finding.placeholder, finding.value]));
+
+// Add a new document's redactions to the ones a chat already uses. Values the chat already knows keep
+// their placeholder and new ones are numbered after it, so earlier documents stay redacted.
+export const mergeRedactions = (existing: RedactionMap, added: RedactionMap): RedactionMap => {
+  const merged = { ...existing };
+  Object.entries(added).forEach(([placeholder, value]) => {
+    const prefix = placeholder.replace(/_\d+\]$/, '_');
+    const known = Object.entries(merged).some(([mergedPlaceholder, mergedValue]) =>
+      mergedPlaceholder.startsWith(prefix) && normalizeValue(mergedValue) === normalizeValue(value));
+    if (known) return;
+
+    let index = 1;
+    while (merged[`${prefix}${index}]`] !== undefined) index++;
+    merged[`${prefix}${index}]`] = value;
+  });
+  return merged;
+};
+
+// Swap every known value for its placeholder; longer values first so "Anil Kumar" wins over "Anil"
+export const redactText = (text: string, redactions: RedactionMap): string =>
+  Object.entries(redactions)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .reduce((result, [placeholder, value]) => result.replace(valuePattern(value), placeholder), text);
+
+// Put the original values back into a reply from the analysis service
+export const restoreRedactions = (text: string, redactions: RedactionMap): string =>
+  text.replace(/\[[A-Z_]+_\d+\]/g, placeholder => redactions[placeholder] ?? placeholder);
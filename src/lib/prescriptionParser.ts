@@ -0,0 +1,221 @@
+// Turns extracted prescription text into a structured model the user can check before analysis
+
+export interface PrescriptionMedicine {
+  name: string;
+  strength: string;
+  form: string;
+  route: string;
+  frequency: string;
+  duration: string;
+  instructions: string;
+}
+
+export interface Prescription {
+  prescriber: string;
+  date: string;
+  patient: string;
+  medicines: PrescriptionMedicine[];
+}
+
+export const MEDICINE_FIELDS: { key: keyof PrescriptionMedicine; label: string }[] = [
+  { key: 'name', label: 'Medicine' },
+  { key: 'strength', label: 'Strength' },
+  { key: 'form', label: 'Form' },
+  { key: 'route', label: 'Route' },
+  { key: 'frequency', label: 'Frequency' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'instructions', label: 'Instructions' },
+];
+
+// Dosage form prefixes as written on Indian and UK/US prescriptions, keyed by lower-case abbreviation
+const FORMS: Record<string, string> = {
+  tab: 'Tablet',
+  tabs: 'Tablet',
+  tablet: 'Tablet',
+  cap: 'Capsule',
+  caps: 'Capsule',
+  capsule: 'Capsule',
+  syp: 'Syrup',
+  syr: 'Syrup',
+  syrup: 'Syrup',
+  susp: 'Suspension',
+  suspension: 'Suspension',
+  inj: 'Injection',
+  injection: 'Injection',
+  oint: 'Ointment',
+  ointment: 'Ointment',
+  cream: 'Cream',
+  gel: 'Gel',
+  lotion: 'Lotion',
+  drops: 'Drops',
+  drop: 'Drops',
+  gtt: 'Drops',
+  inh: 'Inhaler',
+  inhaler: 'Inhaler',
+  neb: 'Nebulization',
+  sachet: 'Sachet',
+  powder: 'Powder',
+  spray: 'Spray',
+  supp: 'Suppository',
+};
+
+const ROUTES: Record<string, string> = {
+  po: 'Oral',
+  oral: 'Oral',
+  iv: 'Intravenous',
+  im: 'Intramuscular',
+  sc: 'Subcutaneous',
+  sq: 'Subcutaneous',
+  sl: 'Sublingual',
+  top: 'Topical',
+  topical: 'Topical',
+  pr: 'Rectal',
+  inh: 'Inhalation',
+  neb: 'Inhalation',
+};
+
+// Route implied by the dosage form when the prescriber didn't write one
+const FORM_ROUTES: Record<string, string> = {
+  Tablet: 'Oral',
+  Capsule: 'Oral',
+  Syrup: 'Oral',
+  Suspension: 'Oral',
+  Sachet: 'Oral',
+  Powder: 'Oral',
+  Ointment: 'Topical',
+  Cream: 'Topical',
+  Gel: 'Topical',
+  Lotion: 'Topical',
+  Inhaler: 'Inhalation',
+  Nebulization: 'Inhalation',
+  Suppository: 'Rectal',
+};
+
+const FORM_PATTERN = new RegExp(`^(${Object.keys(FORMS).join('|')})\\b\\.?\\s*`, 'i');
+const ROUTE_PATTERN = new RegExp(`\\b(${Object.keys(ROUTES).join('|')})\\b`, 'i');
+const STRENGTH_PATTERN = /\b\d+(?:\.\d+)?\s?(?:mg|mcg|g|mL|L|IU|units|%|mEq|mmol)(?:\s?\/\s?\d*(?:\.\d+)?\s?(?:mL|g|tab|dose))?(?:\s?\+\s?\d+(?:\.\d+)?\s?(?:mg|mcg|g|mL|IU|%))*/i;
+const FREQUENCY_PATTERN = /\b(?:\d(?:\/\d)?\s?-\s?\d(?:\/\d)?\s?-\s?\d(?:\/\d)?(?:\s?-\s?\d(?:\/\d)?)?|OD|QD|BD|BID|TDS|TID|QID|QDS|HS|SOS|PRN|STAT|Q\d{1,2}H|once (?:a )?daily|twice (?:a )?daily|thrice (?:a )?daily|(?:once|twice|thrice|\d times) a day|at (?:bed ?time|night))\b/i;
+const DURATION_PATTERN = /\b\d+\s?(?:days?|weeks?|wks?|months?|d)\b/i;
+const FOLLOW_UP_PATTERN = /\b(?:review|follow[\s-]?up|revisit|next visit)\b/i;
+const INSTRUCTION_PATTERN = /\b(?:AC|PC|before (?:food|meals?|breakfast)|after (?:food|meals?|breakfast)|with (?:food|meals?|milk|water)|on (?:an )?empty stomach|(?:do not|don't) (?:crush|chew)|apply (?:locally|thinly)|as directed)\b/i;
+
+const LABEL_PATTERNS = {
+  prescriber: /^(?:prescriber|doctor|consultant|physician)\s*[:-]\s*(.+)$/i,
+  patient: /^(?:patient(?:'s)?(?:\s*name)?|pt(?:\.|\s*name)?|name)\s*[:-]\s*(.+)$/i,
+  date: /^(?:date|dated|dt)\s*[:.-]?\s*(.+)$/i,
+};
+
+const DOCTOR_PATTERN = /\bDr\.?\s+[A-Z][A-Za-z.'-]*(?:\s+[A-Z][A-Za-z.'-]*){0,3}/;
+const DEGREE_PATTERN = /[\s,]+(?:MBBS|MD|MS|DNB|DM|DCH|BDS|BAMS|BHMS|FRCS|MRCP)\b.*$/;
+const DATE_PATTERN = /\b(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?,?\s+\d{2,4})\b/i;
+
+export const createEmptyMedicine = (): PrescriptionMedicine => ({
+  name: '',
+  strength: '',
+  form: '',
+  route: '',
+  frequency: '',
+  duration: '',
+  instructions: '',
+});
+
+export const isPrescriptionEmpty = (prescription: Prescription) =>
+  !prescription.prescriber && !prescription.date && !prescription.patient && prescription.medicines.length === 0;
+
+// Patient values often run on into age/sex columns on the same line
+const trimLabelValue = (value: string) => value.split(/\s{2,}|\b(?:age|sex|gender|date)\b/i)[0].replace(/[,;]+$/, '').trim();
+
+const matchText = (line: string, pattern: RegExp) => line.match(pattern)?.[0].trim() ?? '';
+
+const parseMedicineLine = (line: string): PrescriptionMedicine | null => {
+  // Drop list numbering and the Rx symbol: "1.", "2)", "Rx", "℞"
+  let rest = line.replace(/^(?:\d{1,2}\s*[.)]\s*|rx\s*[:.]?\s*|℞\s*)+/i, '').trim();
+
+  const formMatch = rest.match(FORM_PATTERN);
+  const form = formMatch ? FORMS[formMatch[1].toLowerCase()] : '';
+  if (formMatch) rest = rest.slice(formMatch[0].length);
+
+  const strength = matchText(rest, STRENGTH_PATTERN);
+  const frequency = matchText(rest, FREQUENCY_PATTERN);
+
+  // Without a dosage form, only treat the line as a medicine if it reads like one
+  if (!form && !(strength && frequency)) return null;
+
+  const duration = matchText(rest, DURATION_PATTERN);
+  const instructions = matchText(rest, INSTRUCTION_PATTERN);
+  const routeMatch = rest.match(ROUTE_PATTERN);
+  const route = routeMatch ? ROUTES[routeMatch[1].toLowerCase()] : FORM_ROUTES[form] ?? '';
+
+  // The name is whatever comes before the first dosing detail
+  const detailIndexes = [STRENGTH_PATTERN, FREQUENCY_PATTERN, DURATION_PATTERN, INSTRUCTION_PATTERN, ROUTE_PATTERN]
+    .map(pattern => rest.search(pattern))
+    .filter(index => index >= 0);
+  const name = rest
+    .slice(0, detailIndexes.length > 0 ? Math.min(...detailIndexes) : undefined)
+    .replace(/[\s\-:,(]+$/, '')
+    .trim();
+
+  if (!name) return null;
+
+  return { name, strength, form, route, frequency, duration, instructions };
+};
+
+// Fill gaps in the previous medicine from a follow-on line such as "1-0-1 x 5 days after food"
+const mergeContinuationLine = (medicine: PrescriptionMedicine, line: string) => {
+  if (FOLLOW_UP_PATTERN.test(line)) return false;
+
+  const details: Partial<PrescriptionMedicine> = {
+    frequency: matchText(line, FREQUENCY_PATTERN),
+    duration: matchText(line, DURATION_PATTERN),
+    instructions: matchText(line, INSTRUCTION_PATTERN),
+  };
+  const found = Object.entries(details).filter(([key, value]) => value && !medicine[key as keyof PrescriptionMedicine]);
+  found.forEach(([key, value]) => {
+    medicine[key as keyof PrescriptionMedicine] = value as string;
+  });
+  return found.length > 0;
+};
+
+export const parsePrescription = (text: string): Prescription => {
+  const prescription: Prescription = { prescriber: '', date: '', patient: '', medicines: [] };
+  const lines = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !/^--- Page \d+/.test(line));
+
+  lines.forEach(line => {
+    const prescriberLabel = line.match(LABEL_PATTERNS.prescriber);
+    const patientLabel = line.match(LABEL_PATTERNS.patient);
+    const dateLabel = line.match(LABEL_PATTERNS.date);
+
+    if (prescriberLabel && !prescription.prescriber) {
+      prescription.prescriber = trimLabelValue(prescriberLabel[1]);
+      return;
+    }
+    if (patientLabel && !prescription.patient) {
+      prescription.patient = trimLabelValue(patientLabel[1]);
+      // The date often shares the patient's line, but nothing else on it is a medicine or the doctor
+      if (!prescription.date) prescription.date = matchText(line, DATE_PATTERN);
+      return;
+    }
+    if (dateLabel && !prescription.date) {
+      prescription.date = matchText(dateLabel[1], DATE_PATTERN) || trimLabelValue(dateLabel[1]);
+      return;
+    }
+
+    const medicine = parseMedicineLine(line);
+    if (medicine) {
+      prescription.medicines.push(medicine);
+      return;
+    }
+
+    const previous = prescription.medicines[prescription.medicines.length - 1];
+    if (previous && mergeContinuationLine(previous, line)) return;
+
+    // Letterheads rarely label the doctor or date, so fall back to recognizable patterns
+    if (!prescription.prescriber) prescription.prescriber = matchText(line, DOCTOR_PATTERN).replace(DEGREE_PATTERN, '');
+    if (!prescription.date) prescription.date = matchText(line, DATE_PATTERN);
+  });
+
+  return prescription;
+};
@@ -0,0 +1,122 @@
+import type { ExtractedPage } from './documentText';
+
+// Destinations that hold formatting data or field codes rather than document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'objdata', 'themedata',
+  'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'filetbl', 'revtbl', 'pgdsctbl', 'fldinst', 'bkmkstart', 'bkmkend',
+  'nonshppict', 'shppict', 'shpinst', 'mmathPr', 'wgrffmtfilter', 'fchars', 'lchars'
+]);
+
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  cell: '  ',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+const TOKEN_PATTERN = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/gi;
+
+// Plain text of an RTF document; \'hh bytes are decoded with the document's ANSI code page
+export const extractRtfText = (rtf: string): string => {
+  if (!rtf.trimStart().startsWith('{\\rtf')) {
+    throw new Error('This file is not a valid RTF document.');
+  }
+
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0; // fallback characters still to drop after a \uN
+  let decoder = new TextDecoder('windows-1252');
+  let bytes: number[] = [];
+  let output = '';
+
+  const append = (text: string) => {
+    if (bytes.length > 0) {
+      output += decoder.decode(new Uint8Array(bytes));
+      bytes = [];
+    }
+    output += text;
+  };
+
+  const tokens = new RegExp(TOKEN_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(rtf)) !== null) {
+    const [, word, arg, hex, symbol, brace, text] = match;
+
+    if (brace) {
+      pendingSkip = 0;
+      if (brace === '{') {
+        stack.push({ skip, unicodeSkip });
+      } else {
+        ({ skip, unicodeSkip } = stack.pop() ?? { skip, unicodeSkip });
+      }
+    } else if (symbol) {
+      pendingSkip = 0;
+      if (symbol === '*') {
+        skip = true; // unknown optional destination
+      } else if (!skip) {
+        if (symbol === '~') append(' ');
+        else if (symbol === '_') append('-');
+        else if (symbol === '\n' || symbol === '\r') append('\n');
+        else if (symbol === '\\' || symbol === '{' || symbol === '}') append(symbol);
+      }
+    } else if (word) {
+      pendingSkip = 0;
+      if (SKIPPED_DESTINATIONS.has(word)) {
+        skip = true;
+      } else if (word === 'bin') {
+        tokens.lastIndex += Number(arg) || 0;
+      } else if (word === 'uc') {
+        unicodeSkip = Number(arg) || 0;
+      } else if (word === 'ansicpg') {
+        try {
+          decoder = new TextDecoder(`windows-${arg}`);
+        } catch {
+          // Keep Windows-1252 for code pages the browser doesn't know
+        }
+      } else if (!skip && word === 'u') {
+        const code = Number(arg);
+        append(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = unicodeSkip;
+      } else if (!skip && CONTROL_WORD_TEXT[word]) {
+        append(CONTROL_WORD_TEXT[word]);
+      }
+    } else if (hex) {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else if (!skip) {
+        bytes.push(parseInt(hex, 16));
+      }
+    } else if (text) {
+      const dropped = Math.min(pendingSkip, text.length);
+      pendingSkip -= dropped;
+      if (!skip) append(text.slice(dropped));
+    }
+  }
+  append('');
+
+  return output
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+};
+
+export const extractRtfPages = async (file: File): Promise<ExtractedPage[]> => {
+  const text = extractRtfText(await file.text());
+  if (!text) {
+    throw new Error('No text was found in the RTF document.');
+  }
+  return [{ pageNumber: 1, text, source: 'text' }];
+};
@@ -0,0 +1,42 @@
+// Replies sent piece by piece: Server-Sent Events or newline-delimited JSON
+export const isStreamingResponse = (response: Response): boolean =>
+  /text\/event-stream|ndjson|jsonl/i.test(response.headers.get('content-type') || '');
+
+// Call onData with each SSE `data:` payload or NDJSON line as soon as it is complete
+export const readStreamEvents = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const isEventStream = /text\/event-stream/i.test(response.headers.get('content-type') || '');
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventData: string[] = [];
+
+  const handleLine = (line: string) => {
+    if (!isEventStream) {
+      if (line.trim()) onData(line);
+      return;
+    }
+    // A blank line ends an event; comments, event names and ids carry no text
+    if (line === '') {
+      if (eventData.length > 0) onData(eventData.join('\n'));
+      eventData = [];
+    } else if (line.startsWith('data:')) {
+      eventData.push(line.slice(5).replace(/^ /, ''));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop() ?? '';
+    lines.forEach(handleLine);
+
+    if (done) {
+      handleLine('');
+      return;
+    }
+  }
+};
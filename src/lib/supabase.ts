@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Prescription } from './prescriptionParser';
+import type { ChatResponse, MedicineBlock } from './chatResponse';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -74,6 +76,9 @@ export interface UserActivity {
   analysis_result: string;
   file_name: string | null;
   file_type: string | null;
+  ocr_language: string | null;
+  prescription: Prescription | null;
+  file_paths: string[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -87,12 +92,31 @@ export interface ChatSession {
   updated_at: string;
 }
 
+// Bot replies that were stopped or failed are kept, but marked so they aren't mistaken for answers
+export type ChatMessageStatus = 'complete' | 'stopped' | 'error';
+
 export interface ChatMessage {
   id: string;
   session_id: string;
   type: 'user' | 'bot';
   content: string;
+  status: ChatMessageStatus;
+  // Structured bot reply as received; `content` holds its plain-text version
+  payload: ChatResponse | null;
   attachment_type: string | null;
+  attachment_paths: string[] | null;
+  created_at: string;
+}
+
+// A medicine the user saved from a chat reply
+export interface UserMedicine {
+  id: string;
+  user_id: string;
+  name: string;
+  generic_name: string | null;
+  dosage: string | null;
+  // The full card as it appeared in the reply
+  details: MedicineBlock | null;
   created_at: string;
 }
 
@@ -103,6 +127,9 @@ export const insertUserActivity = async (data: {
   analysis_result?: string;
   file_name?: string;
   file_type?: string;
+  ocr_language?: string;
+  prescription?: Prescription | null;
+  file_paths?: string[];
 }): Promise<UserActivity | null> => {
   if (!supabase) {
     console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
@@ -118,6 +145,9 @@ export const insertUserActivity = async (data: {
         analysis_result: data.analysis_result || '',
         file_name: data.file_name || null,
         file_type: data.file_type || null,
+        ocr_language: data.ocr_language || null,
+        prescription: data.prescription || null,
+        file_paths: data.file_paths?.length ? data.file_paths : null,
       }])
       .select()
       .single();
@@ -211,6 +241,9 @@ export const insertChatMessage = async (data: {
   type: 'user' | 'bot';
   content: string;
   attachment_type?: string;
+  attachment_paths?: string[];
+  status?: ChatMessageStatus;
+  payload?: ChatResponse;
 }): Promise<ChatMessage | null> => {
   if (!supabase) {
     console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
@@ -225,6 +258,9 @@ export const insertChatMessage = async (data: {
         type: data.type,
         content: data.content,
         attachment_type: data.attachment_type || null,
+        attachment_paths: data.attachment_paths?.length ? data.attachment_paths : null,
+        status: data.status || 'complete',
+        payload: data.payload || null,
       }])
       .select()
       .single();
@@ -241,6 +277,34 @@ export const insertChatMessage = async (data: {
   }
 };
 
+// Replace a bot reply in place when it is regenerated
+export const updateChatMessage = async (
+  messageId: string,
+  data: { content: string; status: ChatMessageStatus; payload?: ChatResponse }
+): Promise<boolean> => {
+  if (!supabase) {
+    console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('chat_messages')
+      .update({ content: data.content, status: data.status, payload: data.payload || null })
+      .eq('id', messageId);
+
+    if (error) {
+      console.error('Error updating chat message:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in updateChatMessage:', error);
+    return false;
+  }
+};
+
 export const getChatMessages = async (sessionId: string): Promise<ChatMessage[]> => {
   if (!supabase) {
     console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
@@ -340,6 +404,34 @@ export const getUserActivities = async (userEmail: string): Promise<UserActivity
   }
 };
 
+// The saved upload whose stored files include all of filePaths, e.g. to rebuild the document behind a chat turn
+export const getUserActivityByFilePaths = async (filePaths: string[]): Promise<UserActivity | null> => {
+  if (!supabase) {
+    console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('useractivity')
+      .select('*')
+      .contains('file_paths', filePaths)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user activity by file paths:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in getUserActivityByFilePaths:', error);
+    return null;
+  }
+};
+
 export const updateUserActivityAnalysis = async (
   id: string, 
   analysisResult: string
@@ -365,4 +457,189 @@ export const updateUserActivityAnalysis = async (
     console.error('Error in updateUserActivityAnalysis:', error);
     return false;
   }
-};
\ No newline at end of file
+};
+
+export const deleteUserActivity = async (id: string): Promise<boolean> => {
+  if (!supabase) {
+    console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('useractivity')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting user activity:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteUserActivity:', error);
+    return false;
+  }
+};
+
+// Storage operations
+export const DOCUMENTS_BUCKET = 'documents';
+
+// Upload original files under the user's own folder, returning the paths that were stored
+export const uploadDocumentFiles = async (files: File[]): Promise<string[]> => {
+  if (!supabase) {
+    console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    return [];
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error('User not authenticated');
+    return [];
+  }
+
+  const batch = Date.now();
+  const paths: string[] = [];
+
+  for (const [index, file] of files.entries()) {
+    const safeName = file.name.replace(/[^\w.-]+/g, '_');
+    const path = `${user.id}/${batch}-${index}-${safeName}`;
+
+    try {
+      const { error } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined });
+
+      if (error) {
+        console.error('Error uploading document file:', error);
+        continue;
+      }
+
+      paths.push(path);
+    } catch (error) {
+      console.error('Error in uploadDocumentFiles:', error);
+    }
+  }
+
+  return paths;
+};
+
+// Short-lived links to private files, keyed by path; missing files are left out
+export const getDocumentFileUrls = async (paths: string[], expiresIn = 3600): Promise<Record<string, string>> => {
+  if (!supabase || paths.length === 0) return {};
+
+  try {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrls(paths, expiresIn);
+
+    if (error) {
+      console.error('Error creating signed URLs:', error);
+      return {};
+    }
+
+    const urls: Record<string, string> = {};
+    data.forEach(entry => {
+      if (entry.path && entry.signedUrl && !entry.error) {
+        urls[entry.path] = entry.signedUrl;
+      }
+    });
+    return urls;
+  } catch (error) {
+    console.error('Error in getDocumentFileUrls:', error);
+    return {};
+  }
+};
+
+export const deleteDocumentFiles = async (paths: string[]): Promise<boolean> => {
+  if (!supabase) {
+    console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    return false;
+  }
+  if (paths.length === 0) return true;
+
+  try {
+    const { error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .remove(paths);
+
+    if (error) {
+      console.error('Error deleting document files:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteDocumentFiles:', error);
+    return false;
+  }
+};
+
+// Saving a medicine that is already in the list counts as success
+export const addUserMedicine = async (medicine: MedicineBlock): Promise<boolean> => {
+  if (!supabase) {
+    console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    return false;
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error('User not authenticated');
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('user_medicines')
+      .insert([{
+        user_id: user.id,
+        name: medicine.name,
+        generic_name: medicine.generic_name || null,
+        dosage: medicine.dosage || null,
+        details: medicine,
+      }]);
+
+    // 23505: unique violation, the medicine is already saved under this name
+    if (error && error.code !== '23505') {
+      console.error('Error adding medicine:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in addUserMedicine:', error);
+    return false;
+  }
+};
+
+export const getUserMedicines = async (): Promise<UserMedicine[]> => {
+  if (!supabase) {
+    console.warn('Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    return [];
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error('User not authenticated');
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('user_medicines')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching medicines:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getUserMedicines:', error);
+    return [];
+  }
+};
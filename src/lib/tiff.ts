@@ -0,0 +1,36 @@
+import * as UTIF from 'utif';
+import { rasterToBlob } from './imagePreprocessing';
+
+// Scanned faxes can hold far more pages than anyone uploads on purpose
+const MAX_TIFF_PAGES = 50;
+
+// Split a (multi-page) TIFF into PNG pages the browser and Tesseract can read
+export const decodeTiffPages = async (image: Blob): Promise<Blob[]> => {
+  const buffer = await image.arrayBuffer();
+
+  let directories: UTIF.IFD[];
+  try {
+    directories = UTIF.decode(buffer);
+  } catch {
+    throw new Error('This TIFF file could not be read.');
+  }
+
+  const pages: Blob[] = [];
+  for (const directory of directories.slice(0, MAX_TIFF_PAGES)) {
+    UTIF.decodeImage(buffer, directory);
+    if (!directory.width || !directory.height) continue;
+
+    const rgba = UTIF.toRGBA8(directory);
+    pages.push(await rasterToBlob({
+      width: directory.width,
+      height: directory.height,
+      channels: 4,
+      data: new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength)
+    }));
+  }
+
+  if (pages.length === 0) {
+    throw new Error('This TIFF file has no readable pages.');
+  }
+  return pages;
+};
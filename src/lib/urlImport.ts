@@ -0,0 +1,28 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Download a linked document through the fetch-url Edge Function, which applies the SSRF and size checks
+export const fetchUrlAsFile = async (url: string): Promise<File> => {
+  if (!supabase) {
+    throw new Error('Importing from a URL needs Supabase to be configured.');
+  }
+
+  const { data, error, response } = await supabase.functions.invoke('fetch-url', { body: { url } });
+
+  if (error) {
+    // The function explains rejections (private address, too large, wrong type) in a JSON body
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new Error(details?.error || 'The document could not be downloaded.');
+    }
+    throw new Error('The URL import service is unavailable. Please try again later.');
+  }
+
+  if (!(data instanceof Blob)) {
+    throw new Error('The URL import service returned an unexpected response.');
+  }
+
+  const type = response?.headers.get('x-content-type') || 'application/octet-stream';
+  const name = decodeURIComponent(response?.headers.get('x-file-name') || 'document');
+  return new File([data], name, { type });
+};
@@ -0,0 +1,309 @@
+/*
+  # fetch-url
+
+  Downloads a document for the "From URL" upload tab so the browser never
+  requests arbitrary hosts itself.
+
+  - POST { "url": "https://..." } with the user's JWT (verify_jwt is on by default)
+  - Only http(s) on the default ports, no credentials in the URL
+  - Every hop (including redirects) must resolve to public addresses only
+  - Known gap: fetch() resolves the host again after the check, so a DNS
+    rebinding server could still answer with a private address the second
+    time. Deno's fetch can't be pinned to the checked address without
+    breaking TLS, so this needs an egress firewall to close fully.
+  - 10 second overall timeout and 10MB body limit
+  - HTML, plain text, PDF and common image types are accepted
+
+  The body is returned as application/octet-stream; the detected type, file
+  name and final URL travel in X-Content-Type, X-File-Name and X-Final-Url.
+*/
+
+const MAX_BYTES = 10 * 1024 * 1024;
+const TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+
+const ALLOWED_TYPES = [
+  'text/html',
+  'text/plain',
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/bmp',
+];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-content-type, x-file-name, x-final-url',
+};
+
+class FetchUrlError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const jsonError = (message: string, status: number) =>
+  new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Loopback, private, link-local (cloud metadata), CGNAT, benchmark, multicast and reserved ranges
+const isPrivateIPv4 = (address: string) => {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+};
+
+// Eight 16-bit groups, or null when the text isn't a valid IPv6 address. Handles "::", a dotted
+// IPv4 tail (::ffff:1.2.3.4) and a zone suffix (fe80::1%eth0).
+const parseIPv6 = (address: string): number[] | null => {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = dotted[2].split('.').map(Number);
+    if (octets.some(octet => octet > 255)) return null;
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+};
+
+const embeddedIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+
+// Private IPv6 ranges, plus every form that embeds an IPv4 address, judged by that address.
+// Anything that doesn't parse is treated as private.
+const isPrivateIPv6 = (address: string) => {
+  const groups = parseIPv6(address);
+  if (!groups) return true;
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+
+  // ::/96 (IPv4-compatible, which also covers :: and ::1) and ::ffff:0:0/96 (IPv4-mapped)
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && (g5 === 0 || g5 === 0xffff)) {
+    return isPrivateIPv4(embeddedIPv4(g6, g7));
+  }
+  // 64:ff9b::/96 NAT64; the rest of 64:ff9b::/16 is for local use
+  if (g0 === 0x64 && g1 === 0xff9b) {
+    return g2 !== 0 || g3 !== 0 || g4 !== 0 || g5 !== 0 || isPrivateIPv4(embeddedIPv4(g6, g7));
+  }
+  // 2002::/16 6to4
+  if (g0 === 0x2002) return isPrivateIPv4(embeddedIPv4(g1, g2));
+  // 2001::/32 Teredo: server address, then the client address stored inverted
+  if (g0 === 0x2001 && g1 === 0) {
+    return isPrivateIPv4(embeddedIPv4(g2, g3)) || isPrivateIPv4(embeddedIPv4(g6 ^ 0xffff, g7 ^ 0xffff));
+  }
+
+  return (
+    (g0 === 0x2001 && g1 === 0xdb8) || // documentation
+    (g0 & 0xfe00) === 0xfc00 || // unique local
+    (g0 & 0xffc0) === 0xfe80 || // link-local
+    (g0 & 0xffc0) === 0xfec0 || // site-local
+    (g0 & 0xff00) === 0xff00 // multicast
+  );
+};
+
+const IPV4_LITERAL = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+const assertPublicUrl = async (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchUrlError('Only http and https links are supported', 400);
+  }
+  if (url.username || url.password) {
+    throw new FetchUrlError('Links with embedded credentials are not allowed', 400);
+  }
+  if (url.port && url.port !== '80' && url.port !== '443') {
+    throw new FetchUrlError('Only standard web ports are allowed', 400);
+  }
+
+  const hostname = url.hostname.replace(/\.$/, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local') || hostname.endsWith('.internal')) {
+    throw new FetchUrlError('This address is not reachable from MediLens', 400);
+  }
+
+  let addresses: string[];
+  if (IPV4_LITERAL.test(hostname)) {
+    addresses = [hostname];
+  } else if (hostname.startsWith('[')) {
+    addresses = [hostname];
+  } else {
+    const [v4, v6] = await Promise.all([
+      Deno.resolveDns(hostname, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(hostname, 'AAAA').catch(() => [] as string[]),
+    ]);
+    addresses = [...v4, ...v6];
+  }
+
+  if (addresses.length === 0) {
+    throw new FetchUrlError('The host could not be found', 400);
+  }
+  // Any private answer fails the whole host, so a mixed record set can't be used to reach internal services.
+  // fetch() looks the host up again, so this doesn't stop DNS rebinding (see the note at the top).
+  if (addresses.some(address => (address.includes(':') ? isPrivateIPv6(address) : isPrivateIPv4(address)))) {
+    throw new FetchUrlError('This address is not reachable from MediLens', 400);
+  }
+};
+
+// Trust magic bytes over a generic or missing Content-Type header
+const sniffContentType = (bytes: Uint8Array, declared: string) => {
+  const head = new TextDecoder().decode(bytes.slice(0, 512)).trimStart().toLowerCase();
+  if (head.startsWith('%pdf')) return 'application/pdf';
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (head.startsWith('gif8')) return 'image/gif';
+  if (head.startsWith('riff') && head.slice(8, 12) === 'webp') return 'image/webp';
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d) return 'image/bmp';
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) return 'text/html';
+  return declared;
+};
+
+const readLimited = async (response: Response) => {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > MAX_BYTES) {
+    throw new FetchUrlError('The document is larger than 10MB', 413);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > MAX_BYTES) {
+      await reader.cancel();
+      throw new FetchUrlError('The document is larger than 10MB', 413);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return body;
+};
+
+// Malformed escapes such as "%E0" are kept as written rather than failing the download
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+const fileNameFor = (url: URL, contentType: string) => {
+  const last = decodeSegment(url.pathname.split('/').filter(Boolean).pop() || '');
+  if (last && /\.[a-z0-9]{2,5}$/i.test(last)) return last;
+
+  const extension = contentType === 'text/html' ? 'html' : contentType === 'text/plain' ? 'txt' : contentType.split('/')[1];
+  return `${url.hostname}.${extension}`;
+};
+
+const fetchPublicDocument = async (target: URL) => {
+  const signal = AbortSignal.timeout(TIMEOUT_MS);
+  let url = target;
+
+  // Follow redirects by hand so each hop is checked before it is requested
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(url);
+
+    const response = await fetch(url, {
+      redirect: 'manual',
+      signal,
+      headers: { 'User-Agent': 'MediLens-URL-Fetcher/1.0', Accept: ALLOWED_TYPES.join(', ') },
+    });
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location');
+      await response.body?.cancel();
+      if (!location) throw new FetchUrlError('The link redirected without a destination', 502);
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new FetchUrlError(`The site responded with status ${response.status}`, 502);
+    }
+
+    const declared = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    const body = await readLimited(response);
+    const contentType = sniffContentType(body, declared);
+    if (!ALLOWED_TYPES.includes(contentType)) {
+      throw new FetchUrlError('Only web pages, PDFs and images can be imported', 415);
+    }
+
+    return { body, contentType, url };
+  }
+
+  throw new FetchUrlError('The link redirected too many times', 502);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonError('Method not allowed', 405);
+  }
+
+  let target: URL;
+  try {
+    const { url } = await req.json();
+    target = new URL(String(url).trim());
+  } catch {
+    return jsonError('Please provide a valid URL', 400);
+  }
+
+  try {
+    const { body, contentType, url } = await fetchPublicDocument(target);
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'X-Content-Type': contentType,
+        'X-File-Name': encodeURIComponent(fileNameFor(url, contentType)),
+        'X-Final-Url': url.toString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof FetchUrlError) {
+      return jsonError(error.message, error.status);
+    }
+    if (error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return jsonError('The site took too long to respond', 504);
+    }
+    console.error('fetch-url failed:', error);
+    return jsonError('The document could not be downloaded', 502);
+  }
+});
@@ -0,0 +1,14 @@
+/*
+  # Store OCR language with user activity
+
+  1. Changes
+    - Add `ocr_language` (text, nullable) to `useractivity`
+      - Tesseract language spec used for the upload, e.g. `eng` or `eng+hin`
+      - Null when no page needed OCR
+
+  2. Security
+    - Existing RLS policies on `useractivity` cover the new column
+*/
+
+ALTER TABLE useractivity
+ADD COLUMN IF NOT EXISTS ocr_language text;
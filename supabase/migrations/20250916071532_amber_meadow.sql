@@ -0,0 +1,14 @@
+/*
+  # Store parsed prescription with user activity
+
+  1. Changes
+    - Add `prescription` (jsonb, nullable) to `useractivity`
+      - Prescriber, date, patient and medicines as reviewed in the upload modal
+      - Null when nothing prescription-like was found in the extracted text
+
+  2. Security
+    - Existing RLS policies on `useractivity` cover the new column
+*/
+
+ALTER TABLE useractivity
+ADD COLUMN IF NOT EXISTS prescription jsonb;
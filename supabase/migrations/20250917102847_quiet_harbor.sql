@@ -0,0 +1,16 @@
+/*
+  # Allow users to delete their own activity
+
+  1. Changes
+    - No schema changes; the My Documents page deletes `useractivity` rows
+
+  2. Security
+    - Add DELETE policy on `useractivity` limited to rows whose `user_email`
+      matches the authenticated user's email, mirroring the existing policies
+*/
+
+CREATE POLICY "Users can delete own activity data"
+  ON UserActivity
+  FOR DELETE
+  TO authenticated
+  USING (auth.jwt() ->> 'email' = user_email);
@@ -0,0 +1,44 @@
+/*
+  # Keep original uploads in Storage
+
+  1. Changes
+    - Create private Storage bucket `documents` (10MB per object)
+      - Objects live under `<auth user id>/...`
+    - Add `file_paths` (text[], nullable) to `useractivity`
+      - Storage paths of the files the text was extracted from
+    - Add `attachment_paths` (text[], nullable) to `chat_messages`
+      - Storage paths of files attached to a message
+
+  2. Security
+    - Bucket is not public; files are read through signed URLs
+    - Add SELECT, INSERT and DELETE policies on `storage.objects` limited to the
+      `documents` bucket and to objects in the user's own top-level folder
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('documents', 'documents', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read own documents"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own documents"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own documents"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+ALTER TABLE useractivity
+ADD COLUMN IF NOT EXISTS file_paths text[];
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS attachment_paths text[];
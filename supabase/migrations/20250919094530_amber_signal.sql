@@ -0,0 +1,23 @@
+/*
+  # Mark stopped and failed bot replies
+
+  1. Changes
+    - Add `status` (text, not null, default 'complete') to `chat_messages`
+      - 'complete' for finished replies and all user messages
+      - 'stopped' for replies the user stopped part way through
+      - 'error' for the apology shown when every attempt failed
+    - Existing rows become 'complete'; earlier failures can't be told apart
+
+  2. Security
+    - No policy changes; regenerated replies are updated in place under the
+      existing "Users can manage own chat messages" policy
+*/
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'complete';
+
+ALTER TABLE chat_messages
+DROP CONSTRAINT IF EXISTS chat_messages_status_check;
+
+ALTER TABLE chat_messages
+ADD CONSTRAINT chat_messages_status_check CHECK (status IN ('complete', 'stopped', 'error'));
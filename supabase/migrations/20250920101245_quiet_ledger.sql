@@ -0,0 +1,16 @@
+/*
+  # Store structured bot replies
+
+  1. Changes
+    - Add `payload` (jsonb, nullable) to `chat_messages`
+      - The validated reply: text, medicine and warning blocks, citations and
+        suggested follow-ups, with a `version` field for its format
+      - `content` keeps the plain-text version for previews and chat history
+      - Null for user messages and replies saved before this change
+
+  2. Security
+    - No policy changes; covered by "Users can manage own chat messages"
+*/
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS payload jsonb;
@@ -0,0 +1,38 @@
+/*
+  # Save medicines from chat replies
+
+  1. Changes
+    - Create `user_medicines`
+      - `user_id` (uuid, references auth.users, cascades on delete)
+      - `name` (text), `generic_name` (text, nullable), `dosage` (text, nullable)
+      - `details` (jsonb, nullable): the medicine card from the reply
+      - `created_at` (timestamptz)
+    - Unique index on `user_id` and lower-cased `name`, so a medicine is
+      only saved once per user
+
+  2. Security
+    - Enable RLS on `user_medicines`
+    - Users can read, add, change and remove only their own rows
+*/
+
+CREATE TABLE IF NOT EXISTS user_medicines (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  generic_name text,
+  dosage text,
+  details jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_medicines_user_name_idx
+  ON user_medicines (user_id, lower(name));
+
+ALTER TABLE user_medicines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own medicines"
+  ON user_medicines
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+/*
+  # Store full-size photos
+
+  1. Changes
+    - Raise the `documents` bucket's file size limit from 10MB to 50MB, the
+      largest photo the upload modal accepts. Photos over 10MB are still
+      shrunk for OCR, but the original is what gets stored.
+
+  2. Security
+    - No policy changes
+*/
+
+UPDATE storage.buckets
+SET file_size_limit = 52428800
+WHERE id = 'documents';
@@ -7,4 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // The extraction worker is started as a module worker and loads mammoth on demand
+  worker: {
+    format: 'es',
+  },
 });